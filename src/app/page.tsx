@@ -1,37 +1,325 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { DrumId, MelodyNote, NoteName, Song } from "@/core/types";
-import { DEFAULT_SONG } from "@/core/defaults";
+import type {
+  BeatUnit,
+  Bus,
+  BusId,
+  Clip,
+  Constraints,
+  DrumId,
+  GrooveId,
+  MelodyNote,
+  NoteName,
+  PitchClass,
+  Scale,
+  ScaleMode,
+  Selection,
+  Song,
+} from "@/core/types";
+import { BUS_IDS, PITCH_CLASSES, SCALE_MODES } from "@/core/types";
+import { DEFAULT_PATTERN, DEFAULT_SONG, DEFAULT_TRACK } from "@/core/defaults";
 import {
+  arrangementPosition,
+  arrangementSteps,
+  nextPatternName,
+  patternStartStep,
+} from "@/core/arrangement";
+import { getDrum, listDrums, visibleDrumRows } from "@/core/drumkit";
+import { listGrooves } from "@/core/groove";
+import { listInstruments } from "@/core/instruments";
+import {
+  DELAY_DIVISIONS,
+  MAX_FILTER_CUTOFF,
+  MAX_REVERB_DECAY,
+  MIN_FILTER_CUTOFF,
+  MIN_REVERB_DECAY,
+  songMix,
+} from "@/core/mix";
+import type {
+  AccidentalPolicy,
+  MixEffects,
+  OutOfRangePolicy,
+  TrackSettings,
+  TransposeOverflow,
+  TransposeRefusal,
+  TransposeUnit,
+} from "@/core/ops";
+import {
+  addArrangementEntry,
   addMelodyNote,
+  addPattern,
+  addTrack,
   adjustPitchBound,
+  clearBar,
+  copySelection,
+  countStepCollisions,
+  countTransposeOverflow,
+  deleteSelection,
+  duplicateBar,
+  duplicatePattern,
+  insertBars,
+  moveArrangementEntry,
+  moveMelodyNote,
+  moveSelection,
+  notesOutsideRange,
+  pasteClip,
+  removeArrangementEntry,
+  removeBar,
   removeMelodyNote,
-  setMelodyNoteDuration,
+  removePattern,
+  removeTrack,
+  renamePattern,
+  resizeMelodyNote,
+  setAllowAccidentals,
+  setArrangementRepeats,
+  setAssignment,
+  setBarCount,
+  setBpm,
+  setConstraints,
+  setDrumRows,
+  setGroove,
+  setScale,
+  setVolume,
+  setDrumHitVelocity,
+  setMelodyNoteVelocity,
+  setStepsPerBeat,
+  setTimeSignature,
   toggleDrumHit,
+  transposeSong,
+  updateBus,
+  updateMixEffects,
+  updateTrack,
 } from "@/core/ops";
-import { totalSteps } from "@/core/utils";
-import { colorForDrum, colorForNote } from "@/ui/color";
-import { buildNoteRows, findMelodyNoteAt, getNotePosition } from "@/ui/grid";
+import type { LegacyExportIssue, LegacyImportIssue } from "@/core/legacy";
+import {
+  exportLegacyMusicData,
+  importLegacyMusicData,
+  parseLegacyMusicData,
+} from "@/core/legacy";
+import { isMidiFile, midiToSong, songToMidi } from "@/core/midi";
+import { SCALE_LABELS, scaleHasAccidentals } from "@/core/scale";
+import { parseSong, serializeSong } from "@/core/serialize";
+import { encodeShareCode, SHARE_HASH_PREFIX, songFromHash } from "@/core/share";
+import type { LibraryEntry } from "@/core/library";
+import { songName } from "@/core/library";
+import {
+  clamp,
+  findPattern,
+  findTrack,
+  MAX_ARRANGEMENT_ENTRIES,
+  MAX_BARS,
+  MAX_BPM,
+  MAX_PATTERNS,
+  MAX_REPEATS,
+  MAX_TRACKS,
+  MIN_BARS,
+  MIN_BPM,
+  PITCH_RANGE_MAX,
+  PITCH_RANGE_MIN,
+  patternNotes,
+  stepsPerBar,
+  totalSteps,
+  velocityOf,
+} from "@/core/utils";
+import { colorForDrum, colorForNote, velocityOpacity, velocityScale } from "@/ui/color";
+import { downloadBlob } from "@/ui/file";
+import { describeNote, describeStep, drumCellLabel, melodyCellLabel } from "@/ui/labels";
+import type { GridPoint } from "@/ui/grid";
+import {
+  buildGridRows,
+  buildNoteRows,
+  DEFAULT_ZOOM,
+  EMPTY_SELECTION,
+  findDrumHitAt,
+  findGhostNotesAt,
+  findMelodyNoteAt,
+  getNotePosition,
+  isSelectionEmpty,
+  selectInRect,
+  stepZoom,
+  ZOOM_LEVELS,
+} from "@/ui/grid";
+import type { TransportState } from "@/audio/engine";
 import { AudioEngine } from "@/audio/engine";
+import { audioBufferToWavBlob, renderSong } from "@/audio/render";
 import { useDragInteraction } from "@/hooks/useDragInteraction";
+import { useSongHistory } from "@/hooks/useSongHistory";
+import { useSongLibrary } from "@/hooks/useSongLibrary";
+import { IndexedDbSongStore } from "@/storage/indexedDbStore";
+
+const INSTRUMENTS = listInstruments();
+const DRUMS = listDrums();
+
+const TIME_SIGNATURES: { label: string; beatsPerBar: number; beatUnit: BeatUnit }[] = [
+  { label: "4/4", beatsPerBar: 4, beatUnit: 4 },
+  { label: "3/4", beatsPerBar: 3, beatUnit: 4 },
+  { label: "2/4", beatsPerBar: 2, beatUnit: 4 },
+  { label: "6/8", beatsPerBar: 6, beatUnit: 8 },
+];
+
+const SUBDIVISIONS = [2, 3, 4];
+
+const BUS_LABELS: Record<BusId, string> = { melody: "Melody", drums: "Drums" };
+
+// The cutoff slider runs 0-100 on a log scale so each octave gets the same travel
+const CUTOFF_RATIO = MAX_FILTER_CUTOFF / MIN_FILTER_CUTOFF;
+
+function cutoffToSlider(cutoff: number): number {
+  return Math.round((Math.log(cutoff / MIN_FILTER_CUTOFF) / Math.log(CUTOFF_RATIO)) * 100);
+}
+
+function sliderToCutoff(value: number): number {
+  return Math.round(MIN_FILTER_CUTOFF * Math.pow(CUTOFF_RATIO, value / 100));
+}
+
+const TRANSPOSE_REFUSALS: Record<TransposeRefusal, string> = {
+  "key-needs-accidentals":
+    "The key would move to one with sharps or flats, which are turned off for this song.",
+  "note-needs-accidentals":
+    "Some notes would land on sharps or flats, which are turned off for this song.",
+  "note-off-scale": "Some notes would land outside the song's key.",
+  "past-limits": `Some notes would go past ${PITCH_RANGE_MIN}–${PITCH_RANGE_MAX}.`,
+};
+
+const TRANSPOSE_STEPS: { label: string; amount: number; unit: TransposeUnit }[] = [
+  { label: "Semitone", amount: 1, unit: "semitones" },
+  { label: "Scale step", amount: 1, unit: "degrees" },
+  { label: "Octave", amount: 12, unit: "semitones" },
+];
+
+type Mode = "student" | "teacher";
 
-const DRUM_ROWS: DrumId[] = ["hihat", "snare", "kick"];
+// A narrower pitch range waiting on what to do with the notes it would leave out
+interface RangeShrink {
+  trackId: string;
+  bound: "min" | "max";
+  direction: "up" | "down";
+  notes: number;
+}
+
+const LOCK_OPTIONS: { key: keyof Constraints; label: string }[] = [
+  { key: "tempoLocked", label: "Lock tempo" },
+  { key: "barsLocked", label: "Lock length & meter" },
+  { key: "drumsEnabled", label: "Drums enabled" },
+];
+
+const ACCIDENTAL_POLICIES: { value: AccidentalPolicy; label: string }[] = [
+  { value: "snap-down", label: "move down" },
+  { value: "snap-up", label: "move up" },
+  { value: "delete", label: "delete" },
+];
+
+const LEGACY_ISSUE_LABELS: Record<LegacyImportIssue["kind"], string> = {
+  "unknown-note": "unknown note names",
+  "out-of-range": "notes outside the playable range",
+  "orphan-sustain": "sustained cells past the end of their note",
+  "sustain-without-start": "sustained cells with no starting note",
+  "unmarked-cell": "cells with neither a start nor a sustain flag",
+  "past-max-length": `cells past the ${MAX_BARS}-bar limit`,
+};
+
+const LEGACY_EXPORT_ISSUE_LABELS: Record<LegacyExportIssue["kind"], string> = {
+  "time-signature": "the grid is always 4/4, so the bar lines will move",
+  "step-length": "the grid is always in sixteenth notes, so the rhythm will play at another speed",
+};
+
+function describeLegacyIssues(issues: LegacyImportIssue[]): string {
+  const counts = new Map<LegacyImportIssue["kind"], number>();
+  for (const issue of issues) {
+    counts.set(issue.kind, (counts.get(issue.kind) ?? 0) + 1);
+  }
+  const lines = Array.from(counts, ([kind, count]) => `• ${count} ${LEGACY_ISSUE_LABELS[kind]}`);
+  return lines.join("\n");
+}
 
 export default function Home() {
-  const [song, setSong] = useState<Song>(DEFAULT_SONG);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const { song, setSong, undo, redo, canUndo, canRedo, beginGesture, endGesture } =
+    useSongHistory(DEFAULT_SONG);
+  const [transport, setTransport] = useState<TransportState>("stopped");
   const [playheadStep, setPlayheadStep] = useState<number | null>(null);
+  // Where Play starts, and the optional loop; both count steps along the arrangement
+  const [cursorStep, setCursorStep] = useState(0);
+  const [loopRange, setLoopRange] = useState<{ start: number; end: number } | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [metronome, setMetronome] = useState(false);
+  const [countIn, setCountIn] = useState(false);
+  const [renderLoops, setRenderLoops] = useState(2);
+  const [isRendering, setIsRendering] = useState(false);
+  const [mode, setMode] = useState<Mode>("student");
+  const [accidentalPolicy, setAccidentalPolicy] = useState<AccidentalPolicy>("snap-down");
+  const [transposeStep, setTransposeStep] = useState(TRANSPOSE_STEPS[0]);
+  const [activeTrackId, setActiveTrackId] = useState(DEFAULT_TRACK.id);
+  const [activePatternId, setActivePatternId] = useState(DEFAULT_PATTERN.id);
+  // Selected notes of the active track and hits of the active pattern
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [selectMode, setSelectMode] = useState(false);
+  const [clipboard, setClipboard] = useState<Clip | null>(null);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  // The grid cell in the tab order; arrow keys move it
+  const [focusPoint, setFocusPoint] = useState<GridPoint>({ row: 0, step: 0 });
+  // Last edit made from the keyboard, read out by screen readers
+  const [announcement, setAnnouncement] = useState("");
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Drums whose synthesized voice is replaced by a loaded recording (engine-wide, not saved)
+  const [sampledDrums, setSampledDrums] = useState<DrumId[]>([]);
+  // What Reset returns to: the blank song, or the assignment as the teacher published it
+  const [resetSong, setResetSong] = useState<Song>(DEFAULT_SONG);
+  const [rangeShrink, setRangeShrink] = useState<RangeShrink | null>(null);
 
   const gridRef = useRef<HTMLDivElement>(null);
   const gridContainerRef = useRef<HTMLDivElement>(null);
+  const songFileInputRef = useRef<HTMLInputElement>(null);
+  const sampleFileInputRef = useRef<HTMLInputElement>(null);
+  const sampleTargetRef = useRef<DrumId | null>(null);
   const engineRef = useRef<AudioEngine | null>(null);
   const songRef = useRef<Song>(song);
+  // The song as it was when a drag began; each step of the drag is applied to it afresh, so
+  // notes the drag passes over come back once it moves on
+  const dragOriginRef = useRef<Song | null>(null);
+  const rangeDialogRef = useRef<HTMLDialogElement>(null);
 
   useEffect(() => {
     songRef.current = song;
   }, [song]);
 
+  useEffect(() => {
+    const dialog = rangeDialogRef.current;
+    if (rangeShrink && dialog && !dialog.open) dialog.showModal();
+  }, [rangeShrink]);
+
+  // Undo or loading another song can take the selected track or pattern away; fall back
+  // to the first
+  const activeTrack = findTrack(song, activeTrackId) ?? song.melody.tracks[0];
+  const trackId = activeTrack.id;
+  const activePattern = findPattern(song, activePatternId) ?? song.patterns[0];
+  const patternId = activePattern.id;
+  const activeNotes = patternNotes(activePattern, trackId);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+      if (target?.closest("dialog")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
   const getEngine = useCallback(() => {
     if (!engineRef.current) {
       engineRef.current = new AudioEngine();
@@ -41,52 +329,148 @@ export default function Home() {
 
   // Drag interaction callbacks
   const handleNoteCreate = useCallback(
-    (noteName: NoteName, step: number): string | null => {
-      const newSong = addMelodyNote(song, {
+    (noteName: NoteName, step: number, velocity?: number): string | null => {
+      const newSong = addMelodyNote(song, patternId, trackId, {
         startStep: step,
         durationSteps: 1,
         note: noteName,
+        velocity,
       });
-      const addedNote = newSong.melody.notes.find(
-        (n) => n.startStep === step && n.note === noteName
-      );
-      if (addedNote) {
+      const addedPattern = findPattern(newSong, patternId);
+      const addedNote =
+        addedPattern &&
+        patternNotes(addedPattern, trackId).find(
+          (n) => n.startStep === step && n.note === noteName
+        );
+      if (newSong !== song && addedNote) {
         setSong(newSong);
-        getEngine().playNotePreview(noteName);
+        dragOriginRef.current = newSong;
+        getEngine().playNotePreview(noteName, activeTrack.instrument, velocity);
         return addedNote.id;
       }
       return null;
     },
-    [song, getEngine]
+    [song, patternId, trackId, activeTrack.instrument, setSong, getEngine]
   );
 
-  const handleNoteRemove = useCallback((noteId: string) => {
-    setSong((prev) => removeMelodyNote(prev, noteId));
-  }, []);
+  const handleNoteRemove = useCallback(
+    (noteId: string) => {
+      setSong((prev) => removeMelodyNote(prev, patternId, trackId, noteId));
+    },
+    [patternId, trackId, setSong]
+  );
+
+  // An edit that doesn't fit leaves the drag where it last fitted
+  const applyDragEdit = useCallback(
+    (edit: (origin: Song) => Song) => {
+      const origin = dragOriginRef.current ?? songRef.current;
+      const edited = edit(origin);
+      setSong((prev) => (edited === origin ? prev : edited));
+    },
+    [setSong]
+  );
+
+  const handleNoteResize = useCallback(
+    (noteId: string, startStep: number, durationSteps: number) => {
+      applyDragEdit((origin) =>
+        resizeMelodyNote(origin, patternId, trackId, noteId, startStep, durationSteps)
+      );
+    },
+    [patternId, trackId, applyDragEdit]
+  );
+
+  const handleNoteVelocityChange = useCallback(
+    (noteId: string, velocity: number) => {
+      setSong((prev) => setMelodyNoteVelocity(prev, patternId, trackId, noteId, velocity));
+    },
+    [patternId, trackId, setSong]
+  );
 
-  const handleNoteDurationChange = useCallback(
-    (noteId: string, duration: number) => {
-      setSong((prev) => setMelodyNoteDuration(prev, noteId, duration));
+  const handleDrumVelocityChange = useCallback(
+    (hitId: string, velocity: number) => {
+      setSong((prev) => setDrumHitVelocity(prev, patternId, hitId, velocity));
     },
-    []
+    [patternId, setSong]
   );
 
   const handleDrumToggle = useCallback(
     (drumId: DrumId, step: number) => {
-      const wasHit = song.drums.hits.some(
+      const wasHit = activePattern.hits.some(
         (h) => h.drumId === drumId && h.step === step
       );
-      setSong((prev) => toggleDrumHit(prev, { step, drumId }));
+      setSong((prev) => toggleDrumHit(prev, patternId, { step, drumId }));
       if (!wasHit) {
         getEngine().playDrumPreview(drumId);
       }
     },
-    [song.drums.hits, getEngine]
+    [activePattern.hits, patternId, setSong, getEngine]
   );
 
+  const noteRows = buildNoteRows(song, activeTrack);
+  const drumRows = song.constraints.drumsEnabled ? visibleDrumRows(song) : [];
+  const gridRows = buildGridRows(noteRows, drumRows);
+
+  const isSelected = useCallback(
+    (id: string) => selection.noteIds.includes(id) || selection.hitIds.includes(id),
+    [selection]
+  );
+
+  const handleSelectRect = useCallback(
+    (from: GridPoint, to: GridPoint) => {
+      setSelection(selectInRect(activePattern, trackId, gridRows, from, to));
+    },
+    [activePattern, trackId, gridRows]
+  );
+
+  // Rows count down the grid; the note takes the pitch of the row it is dragged to
+  const handleNoteMove = useCallback(
+    (noteId: string, startStep: number, rows: number) => {
+      applyDragEdit((origin) => {
+        const pattern = findPattern(origin, patternId);
+        const note = pattern && patternNotes(pattern, trackId).find((n) => n.id === noteId);
+        if (!note) return origin;
+        const row = noteRows.indexOf(note.note);
+        // Notes left off the grid by a narrower range or scale can only move in time
+        const target = row < 0 ? note.note : noteRows[row + rows];
+        if (!target) return origin;
+        return moveMelodyNote(origin, patternId, trackId, noteId, startStep, target);
+      });
+    },
+    [patternId, trackId, noteRows, applyDragEdit]
+  );
+
+  // Grid rows are scale degrees, so moving down a row moves the notes one degree down
+  const handleSelectionMove = useCallback(
+    (steps: number, rows: number) => {
+      if (steps === 0 && rows === 0 && dragOriginRef.current) {
+        setSong(dragOriginRef.current);
+        return;
+      }
+      applyDragEdit((origin) =>
+        moveSelection(origin, patternId, trackId, selection, steps, -rows)
+      );
+    },
+    [patternId, trackId, selection, setSong, applyDragEdit]
+  );
+
+  const handleGestureStart = useCallback(() => {
+    dragOriginRef.current = songRef.current;
+    beginGesture();
+  }, [beginGesture]);
+
+  const handleGestureEnd = useCallback(() => {
+    dragOriginRef.current = null;
+    endGesture();
+  }, [endGesture]);
+
   const findNoteAt = useCallback(
-    (noteName: NoteName, step: number) => findMelodyNoteAt(song, noteName, step),
-    [song]
+    (noteName: NoteName, step: number) => findMelodyNoteAt(activeNotes, noteName, step),
+    [activeNotes]
+  );
+
+  const findHitAt = useCallback(
+    (drumId: DrumId, step: number) => findDrumHitAt(activePattern, drumId, step),
+    [activePattern]
   );
 
   const {
@@ -99,74 +483,762 @@ export default function Home() {
     gridContainerRef,
     onNoteCreate: handleNoteCreate,
     onNoteRemove: handleNoteRemove,
-    onNoteDurationChange: handleNoteDurationChange,
+    onNoteResize: handleNoteResize,
+    onNoteMove: handleNoteMove,
+    onNoteVelocityChange: handleNoteVelocityChange,
     onDrumToggle: handleDrumToggle,
+    onDrumVelocityChange: handleDrumVelocityChange,
     findNoteAt,
+    findDrumHitAt: findHitAt,
+    selectMode,
+    isSelected,
+    onSelectRect: handleSelectRect,
+    onSelectionMove: handleSelectionMove,
+    zoom,
+    onZoomChange: setZoom,
+    onGestureStart: handleGestureStart,
+    onGestureEnd: handleGestureEnd,
   });
 
-  const noteRows = buildNoteRows(song);
   const steps = totalSteps(song);
   const stepsArray = Array.from({ length: steps }, (_, i) => i);
+  const barSteps = stepsPerBar(song);
+  const barsArray = Array.from({ length: song.bars }, (_, i) => i);
+  const barsLocked = song.constraints.barsLocked;
+  const tempoDisabled = song.constraints.tempoLocked;
+  const mix = songMix(song);
+  const hiddenNoteCount = notesOutsideRange(song, trackId).length;
+  // The transport counts steps along the arrangement; the grid shows one pattern of it
+  const playing = playheadStep === null ? null : arrangementPosition(song, playheadStep);
+  // Arranged step of the pattern pass the grid shows, for placing the cursor and loop markers
+  const gridStart = patternStartStep(song, patternId, playheadStep ?? cursorStep);
+  // A loop cut short by a shorter arrangement keeps what is left of it
+  const loopEnd = loopRange ? Math.min(loopRange.end, arrangementSteps(song)) : 0;
+  const hasLoop = loopRange !== null && loopRange.start < loopEnd;
+  const loopStart = hasLoop && loopEnabled ? loopRange.start : null;
+  const activeLoop = loopStart === null ? null : { start: loopStart, end: loopEnd };
+  // Pastes land at the play cursor when it is inside the pattern shown, else at its start
+  const cursorInGrid = gridStart === null ? -1 : cursorStep - gridStart;
+  const editStep = cursorInGrid >= 0 && cursorInGrid < steps ? cursorInGrid : 0;
+  const hasSelection = !isSelectionEmpty(selection);
+
+  const handleCopy = useCallback(() => {
+    const clip = copySelection(song, patternId, trackId, selection);
+    if (clip) setClipboard(clip);
+    return clip;
+  }, [song, patternId, trackId, selection]);
+
+  const handleCut = useCallback(() => {
+    if (!handleCopy()) return;
+    setSong((prev) => deleteSelection(prev, patternId, trackId, selection));
+    setSelection(EMPTY_SELECTION);
+  }, [handleCopy, patternId, trackId, selection, setSong]);
+
+  const handleDeleteSelection = useCallback(() => {
+    setSong((prev) => deleteSelection(prev, patternId, trackId, selection));
+    setSelection(EMPTY_SELECTION);
+  }, [patternId, trackId, selection, setSong]);
+
+  // Selects what was pasted and moves the cursor past it, so pasting again continues on
+  const handlePaste = useCallback(() => {
+    if (!clipboard) return;
+    const pasted = pasteClip(song, patternId, trackId, clipboard, editStep);
+    const pastedPattern = findPattern(pasted, patternId);
+    if (pasted === song || !pastedPattern) return;
+    setSong(pasted);
+    setSelection({
+      noteIds: patternNotes(pastedPattern, trackId)
+        .filter((n) => !activeNotes.some((old) => old.id === n.id))
+        .map((n) => n.id),
+      hitIds: pastedPattern.hits
+        .filter((h) => !activePattern.hits.some((old) => old.id === h.id))
+        .map((h) => h.id),
+    });
+    if (gridStart !== null) {
+      setCursorStep(gridStart + Math.min(editStep + clipboard.steps, steps - 1));
+    }
+  }, [
+    clipboard,
+    song,
+    patternId,
+    trackId,
+    editStep,
+    activeNotes,
+    activePattern.hits,
+    gridStart,
+    steps,
+    setSong,
+  ]);
+
+  // Only hits on the rows shown, so none while drums are turned off
+  const handleSelectAll = useCallback(() => {
+    const rows = song.constraints.drumsEnabled ? visibleDrumRows(song) : [];
+    setSelection({
+      noteIds: activeNotes.map((n) => n.id),
+      hitIds: activePattern.hits.filter((h) => rows.includes(h.drumId)).map((h) => h.id),
+    });
+  }, [activeNotes, activePattern.hits, song]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+      if (target?.closest("dialog")) return;
+
+      const key = e.key.toLowerCase();
+      const cursorBar = Math.floor(editStep / barSteps);
+      if (e.ctrlKey || e.metaKey) {
+        // With nothing selected, copy and cut are left to the browser
+        if ((key === "c" || key === "x") && !hasSelection) {
+          return;
+        }
+        if (key === "c") {
+          handleCopy();
+        } else if (key === "x") {
+          handleCut();
+        } else if (key === "v") {
+          handlePaste();
+        } else if (key === "a") {
+          handleSelectAll();
+        } else if (key === "d") {
+          setSong((prev) => duplicateBar(prev, cursorBar));
+        } else if (key === "backspace" || key === "delete") {
+          setSong((prev) => clearBar(prev, patternId, cursorBar));
+        } else {
+          return;
+        }
+        e.preventDefault();
+      } else if (key === "escape") {
+        setSelection(EMPTY_SELECTION);
+      } else if ((key === "delete" || key === "backspace") && hasSelection) {
+        e.preventDefault();
+        handleDeleteSelection();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [
+    editStep,
+    barSteps,
+    patternId,
+    hasSelection,
+    handleCopy,
+    handleCut,
+    handlePaste,
+    handleSelectAll,
+    handleDeleteSelection,
+    setSong,
+  ]);
+
+  // Previews should sound like playback, so the engine follows mix changes while stopped too
+  useEffect(() => {
+    getEngine().applyMix(song);
+  }, [song, getEngine]);
+
+  useEffect(() => {
+    getEngine().setOptions({
+      loop: loopStart === null ? null : { start: loopStart, end: loopEnd },
+      metronome,
+      countIn,
+    });
+  }, [loopStart, loopEnd, metronome, countIn, getEngine]);
 
   const handlePlay = async () => {
-    if (isPlaying) return;
+    if (transport === "playing") return;
 
     try {
       const engine = getEngine();
       await engine.init();
-      setIsPlaying(true);
-      engine.play(
-        () => songRef.current,
-        (step) => {
-          setPlayheadStep(step);
-        }
-      );
+      const getSong = () => songRef.current;
+      if (transport === "paused") {
+        engine.resume(getSong, setPlayheadStep);
+      } else {
+        engine.play(getSong, setPlayheadStep, cursorStep);
+      }
+      setTransport("playing");
     } catch (error) {
       console.error("Failed to start audio:", error);
     }
   };
 
-  const handleStop = () => {
+  const handlePause = () => {
+    engineRef.current?.pause();
+    setTransport("paused");
+  };
+
+  const handleStop = useCallback(() => {
     if (engineRef.current) {
       engineRef.current.stop();
     }
-    setIsPlaying(false);
+    setTransport("stopped");
     setPlayheadStep(null);
+  }, []);
+
+  // Click moves the play cursor; Shift+click loops from the cursor to the clicked step
+  const handleRulerClick = (step: number, extendLoop: boolean) => {
+    if (gridStart === null) return;
+    const arranged = gridStart + step;
+    if (extendLoop) {
+      setLoopRange({
+        start: Math.min(cursorStep, arranged),
+        end: Math.max(cursorStep, arranged) + 1,
+      });
+      setLoopEnabled(true);
+      return;
+    }
+    if (transport === "paused") {
+      handleStop();
+    }
+    setCursorStep(arranged);
   };
 
+  const handleLoopToggle = () => {
+    if (loopEnabled) {
+      setLoopEnabled(false);
+      return;
+    }
+    // With no loop chosen yet, loop the pattern pass the grid shows
+    if (!hasLoop) {
+      if (gridStart === null) return;
+      setLoopRange({ start: gridStart, end: gridStart + steps });
+    }
+    setLoopEnabled(true);
+  };
+
+  // Keyboard editing. The focused cell is clamped, since rows and steps come and go with edits.
+  const focusRow = Math.min(focusPoint.row, gridRows.length - 1);
+  const focusStep = Math.min(focusPoint.step, steps - 1);
+
+  const focusCell = (point: GridPoint) => {
+    setFocusPoint(point);
+    const row = gridRef.current?.querySelectorAll(".grid-row")[point.row];
+    (row?.children[point.step] as HTMLElement | undefined)?.focus();
+  };
+
+  // Enter/Space: add or remove the note or hit under the focus
+  const handleCellActivate = (point: GridPoint) => {
+    const row = gridRows[point.row];
+    const where = describeStep(song, point.step);
+    if (row.kind === "drum") {
+      const hit = findDrumHitAt(activePattern, row.drumId, point.step);
+      handleDrumToggle(row.drumId, point.step);
+      setAnnouncement(`${hit ? "Removed" : "Added"} ${getDrum(row.drumId).label} at ${where}`);
+      return;
+    }
+    const note = findMelodyNoteAt(activeNotes, row.note, point.step);
+    if (note) {
+      handleNoteRemove(note.id);
+      setAnnouncement(`Removed ${describeNote(song, note)}`);
+      return;
+    }
+    const added = addMelodyNote(song, patternId, trackId, {
+      startStep: point.step,
+      durationSteps: 1,
+      note: row.note,
+    });
+    if (added === song) {
+      setAnnouncement(`Can't add ${row.note} at ${where}`);
+      return;
+    }
+    setSong(added);
+    getEngine().playNotePreview(row.note, activeTrack.instrument);
+    setAnnouncement(`Added ${row.note} at ${where}`);
+  };
+
+  // Shift+Left/Right: shorten or lengthen the note under the focus
+  const handleDurationKey = (point: GridPoint, delta: number) => {
+    const row = gridRows[point.row];
+    const note = row.kind === "note" && findMelodyNoteAt(activeNotes, row.note, point.step);
+    if (!note) return;
+    const direction = delta > 0 ? "longer" : "shorter";
+    const refused = `${describeNote(song, note)}, can't be made ${direction}`;
+    if (note.durationSteps + delta < 1) {
+      setAnnouncement(refused);
+      return;
+    }
+    const resized = resizeMelodyNote(
+      song,
+      patternId,
+      trackId,
+      note.id,
+      note.startStep,
+      note.durationSteps + delta
+    );
+    const resizedPattern = findPattern(resized, patternId);
+    const after =
+      resizedPattern && patternNotes(resizedPattern, trackId).find((n) => n.id === note.id);
+    if (!after || after.durationSteps === note.durationSteps) {
+      setAnnouncement(refused);
+      return;
+    }
+    setSong(resized);
+    setAnnouncement(describeNote(resized, after));
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || gridRows.length === 0) return;
+    const point = { row: focusRow, step: focusStep };
+    const lastRow = gridRows.length - 1;
+    if (e.shiftKey && (e.key === "ArrowLeft" || e.key === "ArrowRight")) {
+      handleDurationKey(point, e.key === "ArrowLeft" ? -1 : 1);
+    } else if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      const row = clamp(point.row + (e.key === "ArrowUp" ? -1 : 1), 0, lastRow);
+      focusCell({ ...point, row });
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      const step = clamp(point.step + (e.key === "ArrowLeft" ? -1 : 1), 0, steps - 1);
+      focusCell({ ...point, step });
+    } else if (e.key === "Home" || e.key === "End") {
+      focusCell({ ...point, step: e.key === "Home" ? 0 : steps - 1 });
+    } else if (e.key === "Enter" || e.key === " ") {
+      handleCellActivate(point);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  // Read out each new bar while playing, and where playback stopped
+  const describePlayback = (): string => {
+    if (transport === "stopped") return "Stopped";
+    const position = playing ?? arrangementPosition(song, cursorStep);
+    const pattern = findPattern(song, position.patternId);
+    const where =
+      transport === "playing"
+        ? `Bar ${Math.floor(position.step / barSteps) + 1}`
+        : `Paused at ${describeStep(song, position.step)}`;
+    return song.patterns.length > 1 && pattern ? `${pattern.name || "Untitled"}, ${where}` : where;
+  };
+
+  // Puts a song in the editor; `loadSong` also gives it a new place in the library
+  const showSong = useCallback(
+    (loaded: Song) => {
+      handleStop();
+      setSong(loaded);
+      if (loaded.assignment) {
+        setMode("student");
+        setResetSong(loaded);
+      } else {
+        setResetSong(DEFAULT_SONG);
+      }
+    },
+    [handleStop, setSong]
+  );
+
+  // An opened song link wins over the song left open last time
+  const openedLinkRef = useRef(false);
+  const shouldRecover = useCallback(() => !openedLinkRef.current, []);
+  const [songStore] = useState(() => new IndexedDbSongStore());
+  const library = useSongLibrary({ store: songStore, song, onOpen: showSong, shouldRecover });
+  const { startNew: startLibrarySong } = library;
+
+  const loadSong = useCallback(
+    (loaded: Song, name: string) => startLibrarySong(songName(loaded, name), loaded),
+    [startLibrarySong]
+  );
+
+  // Starts over in a new library song, so the work so far is kept
   const handleReset = () => {
-    handleStop();
-    setSong(DEFAULT_SONG);
+    startLibrarySong(songName(resetSong), resetSong);
+  };
+
+  const runLibraryAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      window.alert(`The song library could not do that:\n${message}`);
+    }
+  };
+
+  const handleLibraryRename = (entry: LibraryEntry) => {
+    const name = window.prompt("Rename song", entry.name)?.trim();
+    if (name) runLibraryAction(() => library.rename(entry.id, name));
+  };
+
+  const handleLibraryDelete = (entry: LibraryEntry) => {
+    if (window.confirm(`Delete "${entry.name}" from the library? This can't be undone.`)) {
+      runLibraryAction(() => library.remove(entry.id));
+    }
+  };
+
+  // A song link (#song=...) opens that song, also when pasted into an open tab. The fragment
+  // is dropped afterwards, so reloading the page doesn't throw away later edits.
+  useEffect(() => {
+    const openSongLink = () => {
+      try {
+        const shared = songFromHash(window.location.hash);
+        if (!shared) return;
+        openedLinkRef.current = true;
+        loadSong(shared, "Shared song");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        window.alert(`Could not open the song link:\n${message}`);
+      }
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    };
+    openSongLink();
+    window.addEventListener("hashchange", openSongLink);
+    return () => window.removeEventListener("hashchange", openSongLink);
+  }, [loadSong]);
+
+  const handleCopyLink = async () => {
+    const url =
+      window.location.origin + window.location.pathname + SHARE_HASH_PREFIX + encodeShareCode(song);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+    } catch {
+      // Without clipboard access, show the link to copy by hand
+      window.prompt("Copy this link to share the song:", url);
+    }
+  };
+
+  const handleSave = () => {
+    const blob = new Blob([serializeSong(song)], { type: "application/json" });
+    downloadBlob(blob, "beatbubble-song.json");
+  };
+
+  const handleOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const name = file.name.replace(/\.[^.]+$/, "");
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (isMidiFile(bytes)) {
+        loadSong(midiToSong(bytes), name);
+        return;
+      }
+
+      const text = new TextDecoder().decode(bytes);
+      const legacy = parseLegacyMusicData(text);
+      if (legacy) {
+        const { song: imported, issues } = importLegacyMusicData(legacy);
+        loadSong(imported, name);
+        if (issues.length > 0) {
+          window.alert(
+            `Imported ${file.name}, but some cells could not be mapped:\n` +
+              describeLegacyIssues(issues)
+          );
+        }
+        return;
+      }
+
+      loadSong(parseSong(text), name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      window.alert(`Could not open ${file.name}:\n${message}`);
+    }
+  };
+
+  const handleDrumRowToggle = (drumId: DrumId, visible: boolean) => {
+    const rows = visibleDrumRows(song);
+    const hits = song.patterns.flatMap((p) => p.hits).filter((h) => h.drumId === drumId).length;
+    if (
+      !visible &&
+      hits > 0 &&
+      !window.confirm(
+        `Hide the ${getDrum(drumId).label} row? Its ${hits} hit${hits === 1 ? "" : "s"} will be deleted.`
+      )
+    ) {
+      return;
+    }
+    const next = visible ? [...rows, drumId] : rows.filter((id) => id !== drumId);
+    setSong((prev) => setDrumRows(prev, next));
+  };
+
+  const handleChooseSample = (drumId: DrumId) => {
+    sampleTargetRef.current = drumId;
+    sampleFileInputRef.current?.click();
+  };
+
+  const handleSampleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    const drumId = sampleTargetRef.current;
+    if (!file || !drumId) return;
+
+    try {
+      const engine = getEngine();
+      await engine.loadDrumSample(drumId, await file.arrayBuffer());
+      setSampledDrums((prev) => (prev.includes(drumId) ? prev : [...prev, drumId]));
+      engine.playDrumPreview(drumId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      window.alert(`Could not load ${file.name} as a drum sample:\n${message}`);
+    }
+  };
+
+  const handleClearSample = (drumId: DrumId) => {
+    getEngine().clearDrumSample(drumId);
+    setSampledDrums((prev) => prev.filter((id) => id !== drumId));
+  };
+
+  const handleExportLegacy = () => {
+    const { data, issues } = exportLegacyMusicData(song, trackId, patternId);
+    if (
+      issues.length > 0 &&
+      !window.confirm(
+        "The legacy grid can't hold this song exactly:\n" +
+          issues.map((issue) => `• ${LEGACY_EXPORT_ISSUE_LABELS[issue.kind]}`).join("\n") +
+          "\nExport anyway?"
+      )
+    ) {
+      return;
+    }
+    const json = JSON.stringify(data);
+    downloadBlob(new Blob([json], { type: "application/json" }), "beatbubble-legacy.json");
+  };
+
+  const handleExportMidi = () => {
+    const bytes = songToMidi(song);
+    downloadBlob(new Blob([bytes as BlobPart], { type: "audio/midi" }), "beatbubble-song.mid");
+  };
+
+  const handleExportWav = async () => {
+    if (isRendering) return;
+    setIsRendering(true);
+    try {
+      const buffer = await renderSong(song, renderLoops);
+      downloadBlob(audioBufferToWavBlob(buffer), "beatbubble-song.wav");
+    } catch (error) {
+      console.error("Failed to render audio:", error);
+      const message = error instanceof Error ? error.message : String(error);
+      window.alert(`Could not export the song as audio:\n${message}`);
+    } finally {
+      setIsRendering(false);
+    }
   };
 
   const handleBpmChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value, 10);
     if (!isNaN(value)) {
-      setSong((prev) => ({ ...prev, bpm: value }));
+      setSong((prev) => setBpm(prev, value));
     }
   };
 
+  const handleLockChange = (key: keyof Constraints, value: boolean) => {
+    setSong((prev) => setConstraints(prev, { [key]: value }));
+  };
+
+  const handleAccidentalsChange = (allow: boolean) => {
+    setSong((prev) => setAllowAccidentals(prev, allow, accidentalPolicy));
+  };
+
+  const handleAssignmentChange = (field: "title" | "instructions", value: string) => {
+    setSong((prev) =>
+      setAssignment(prev, {
+        title: prev.assignment?.title ?? "",
+        instructions: prev.assignment?.instructions ?? "",
+        [field]: value,
+      })
+    );
+  };
+
+  const handlePublishAssignment = () => {
+    const title = song.assignment?.title.trim() || "Assignment";
+    const published = setAssignment(song, {
+      title,
+      instructions: song.assignment?.instructions ?? "",
+    });
+    const blob = new Blob([serializeSong(published)], { type: "application/json" });
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    downloadBlob(blob, `${slug || "assignment"}.assignment.json`);
+  };
+
+  const handleInstrumentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const instrument = e.target.value;
+    setSong((prev) => updateTrack(prev, trackId, { instrument }));
+    getEngine().playNotePreview(activeTrack.minNote, instrument);
+  };
+
+  const handleBusChange = (busId: BusId, patch: Partial<Bus>) => {
+    setSong((prev) => updateBus(prev, busId, patch));
+  };
+
+  const handleMixEffectsChange = (patch: Partial<MixEffects>) => {
+    setSong((prev) => updateMixEffects(prev, patch));
+  };
+
+  const handleTrackChange = (id: string, patch: Partial<TrackSettings>) => {
+    setSong((prev) => updateTrack(prev, id, patch));
+  };
+
+  const handleAddTrack = () => {
+    const added = addTrack(song, {
+      name: `Track ${song.melody.tracks.length + 1}`,
+      instrument: activeTrack.instrument,
+      minNote: activeTrack.minNote,
+      maxNote: activeTrack.maxNote,
+    });
+    if (added === song) return;
+    setSong(added);
+    setActiveTrackId(added.melody.tracks[added.melody.tracks.length - 1].id);
+  };
+
+  const handleRemoveTrack = () => {
+    const count = song.patterns.flatMap((p) => patternNotes(p, trackId)).length;
+    if (
+      count > 0 &&
+      !window.confirm(
+        `Delete ${activeTrack.name} and its ${count} note${count === 1 ? "" : "s"}?`
+      )
+    ) {
+      return;
+    }
+    setSong((prev) => removeTrack(prev, trackId));
+  };
+
+  const handleAddPattern = () => {
+    const added = addPattern(song, nextPatternName(song));
+    if (added === song) return;
+    setSong(added);
+    setActivePatternId(added.patterns[added.patterns.length - 1].id);
+  };
+
+  const handleDuplicatePattern = () => {
+    const added = duplicatePattern(song, patternId, nextPatternName(song));
+    if (added === song) return;
+    setSong(added);
+    setActivePatternId(added.patterns[added.patterns.length - 1].id);
+  };
+
+  const handleRemovePattern = () => {
+    const uses = song.arrangement.filter((e) => e.patternId === patternId).length;
+    const isEmpty =
+      activePattern.hits.length === 0 && Object.values(activePattern.notes).every((n) => !n.length);
+    if (
+      (!isEmpty || uses > 0) &&
+      !window.confirm(
+        `Delete pattern ${activePattern.name}` +
+          (uses > 0 ? ` and its ${uses} place${uses === 1 ? "" : "s"} in the arrangement?` : "?")
+      )
+    ) {
+      return;
+    }
+    setSong((prev) => removePattern(prev, patternId));
+  };
+
+  const handleTimeSignatureChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const signature = TIME_SIGNATURES.find((ts) => ts.label === e.target.value);
+    if (!signature) return;
+    setSong((prev) => setTimeSignature(prev, signature.beatsPerBar, signature.beatUnit));
+  };
+
+  const handleSubdivisionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (isNaN(value)) return;
+
+    const merged = countStepCollisions(song, value);
+    if (merged > 0) {
+      const drop = window.confirm(
+        `${merged} note${merged === 1 ? "" : "s"} or hit${merged === 1 ? "" : "s"} would land ` +
+          "on the same step as another and be removed.\nChange the subdivision anyway?"
+      );
+      if (!drop) return;
+    }
+    setSong((prev) => setStepsPerBeat(prev, value, merged > 0 ? "drop" : "refuse"));
+  };
+
+  const handleBarCountChange = (delta: number) => {
+    setSong((prev) => setBarCount(prev, prev.bars + delta));
+  };
+
+  const handleScaleChange = (scale: Scale | undefined) => {
+    setSong((prev) => setScale(prev, scale));
+  };
+
+  const handleGrooveTemplateChange = (template: GrooveId | "") => {
+    setSong((prev) =>
+      setGroove(prev, template ? { template, amount: prev.groove?.amount ?? 1 } : undefined)
+    );
+  };
+
+  const handleGrooveAmountChange = (amount: number) => {
+    setSong((prev) => (prev.groove ? setGroove(prev, { ...prev.groove, amount }) : prev));
+  };
+
+  const isScaleSelectable = (scale: Scale) =>
+    song.constraints.allowAccidentals || !scaleHasAccidentals(scale);
+
   const handlePitchBoundChange = (
     bound: "min" | "max",
     direction: "up" | "down"
   ) => {
-    setSong((prev) => adjustPitchBound(prev, bound, direction));
+    // Ask before a narrower range leaves notes out; kept notes stay in the song, just off-grid
+    const pushedOut =
+      notesOutsideRange(adjustPitchBound(song, trackId, bound, direction, "keep"), trackId)
+        .length - notesOutsideRange(song, trackId).length;
+    if (pushedOut > 0) {
+      setRangeShrink({ trackId, bound, direction, notes: pushedOut });
+      return;
+    }
+    setSong((prev) => adjustPitchBound(prev, trackId, bound, direction, "delete"));
   };
 
-  const renderMelodyCell = (noteName: NoteName, step: number) => {
-    const note = findMelodyNoteAt(song, noteName, step);
-    const isBeatStart = step % song.stepsPerBeat === 0;
-    const isPlayhead = playheadStep === step;
+  const applyRangeShrink = (policy: OutOfRangePolicy) => {
+    if (rangeShrink) {
+      const { trackId: id, bound, direction } = rangeShrink;
+      setSong((prev) => adjustPitchBound(prev, id, bound, direction, policy));
+    }
+    rangeDialogRef.current?.close();
+  };
+
+  const handleTranspose = (direction: 1 | -1) => {
+    const amount = transposeStep.amount * direction;
+    const { unit } = transposeStep;
+    let overflow: TransposeOverflow = "refuse";
+
+    const pastLimits = countTransposeOverflow(song, amount, unit);
+    if (pastLimits > 0) {
+      const fold = window.confirm(
+        `${pastLimits} note${pastLimits === 1 ? "" : "s"} would go past ${PITCH_RANGE_MIN}–${PITCH_RANGE_MAX}.\n` +
+          "Fold them back by an octave?"
+      );
+      if (!fold) return;
+      overflow = "fold";
+    }
+
+    const { refusal } = transposeSong(song, amount, unit, overflow);
+    if (refusal) {
+      window.alert(`Could not transpose:\n${TRANSPOSE_REFUSALS[refusal]}`);
+      return;
+    }
+    setSong((prev) => transposeSong(prev, amount, unit, overflow).song);
+  };
+
+  const cellClassName = (step: number) => {
+    const classes = ["cell"];
+    if (step % song.stepsPerBeat === 0) classes.push("beat-start");
+    if (step % barSteps === 0) classes.push("bar-start");
+    if (playing?.patternId === patternId && playing.step === step) classes.push("playhead");
+    return classes.join(" ");
+  };
+
+  const renderMelodyCell = (noteName: NoteName, row: number, step: number) => {
+    const note = findMelodyNoteAt(activeNotes, noteName, step);
+    const ghosts = note ? [] : findGhostNotesAt(song, activePattern, trackId, noteName, step);
     const handlers = getMelodyCellHandlers(noteName, step);
 
     return (
       <div
         key={step}
-        className={`cell ${isBeatStart ? "beat-start" : ""} ${isPlayhead ? "playhead" : ""}`}
-        onMouseDown={handlers.onMouseDown}
-        onTouchStart={handlers.onTouchStart}
+        className={cellClassName(step)}
+        role="gridcell"
+        tabIndex={row === focusRow && step === focusStep ? 0 : -1}
+        aria-label={melodyCellLabel(song, noteName, step, note)}
+        aria-selected={note ? isSelected(note.id) : false}
+        onFocus={() => setFocusPoint({ row, step })}
+        onPointerDown={handlers.onPointerDown}
       >
         {note && renderBubble(note, step)}
+        {ghosts.length > 0 && (
+          <div
+            className={`bubble ghost ${getNotePosition(ghosts[0], step)}`}
+            style={{ backgroundColor: colorForNote(noteName) }}
+          />
+        )}
       </div>
     );
   };
@@ -175,33 +1247,78 @@ export default function Home() {
     const position = getNotePosition(note, step);
     const isStart = step === note.startStep;
     const color = colorForNote(note.note);
+    const velocity = velocityOf(note);
 
     return (
       <div
-        className={`bubble ${position} ${isStart ? "start-highlight" : ""}`}
-        style={{ backgroundColor: color }}
+        className={`bubble ${position} ${isStart ? "start-highlight" : ""} ${
+          isSelected(note.id) ? "selected" : ""
+        }`}
+        style={
+          {
+            backgroundColor: color,
+            opacity: velocityOpacity(velocity),
+            "--velocity-scale": velocityScale(velocity),
+          } as React.CSSProperties
+        }
+        title={`Velocity ${Math.round(velocity * 100)}% · drag to move, drag an edge to resize`}
       />
     );
   };
 
-  const renderDrumCell = (drumId: DrumId, step: number) => {
-    const hasHit = song.drums.hits.some(
-      (h) => h.drumId === drumId && h.step === step
+  // Loop region and play cursor, drawn over the pattern pass the grid shows
+  const renderTransportMarkers = () => {
+    if (gridStart === null) return null;
+    const cursor = cursorStep - gridStart;
+    const loopStart = activeLoop ? Math.max(activeLoop.start - gridStart, 0) : 0;
+    const loopStop = activeLoop ? Math.min(activeLoop.end - gridStart, steps) : 0;
+
+    return (
+      <>
+        {loopStop > loopStart && (
+          <div
+            className="loop-region"
+            style={{
+              left: `calc(var(--cell-width) * ${loopStart})`,
+              width: `calc(var(--cell-width) * ${loopStop - loopStart})`,
+            }}
+          />
+        )}
+        {cursor >= 0 && cursor < steps && (
+          <div className="play-cursor" style={{ left: `calc(var(--cell-width) * ${cursor})` }} />
+        )}
+      </>
     );
-    const isBeatStart = step % song.stepsPerBeat === 0;
+  };
+
+  const renderDrumCell = (drumId: DrumId, row: number, step: number) => {
+    const hit = findDrumHitAt(activePattern, drumId, step);
     const color = colorForDrum(drumId);
-    const isPlayhead = playheadStep === step;
     const handlers = getDrumCellHandlers(drumId, step);
 
     return (
       <div
         key={step}
-        className={`cell ${isBeatStart ? "beat-start" : ""} ${isPlayhead ? "playhead" : ""}`}
-        onMouseDown={handlers.onMouseDown}
-        onTouchStart={handlers.onTouchStart}
+        className={cellClassName(step)}
+        role="gridcell"
+        tabIndex={row === focusRow && step === focusStep ? 0 : -1}
+        aria-label={drumCellLabel(song, drumId, step, hit)}
+        aria-selected={hit ? isSelected(hit.id) : false}
+        onFocus={() => setFocusPoint({ row, step })}
+        onPointerDown={handlers.onPointerDown}
       >
-        {hasHit && (
-          <div className="drum-bubble" style={{ backgroundColor: color }} />
+        {hit && (
+          <div
+            className={`drum-bubble ${isSelected(hit.id) ? "selected" : ""}`}
+            style={
+              {
+                backgroundColor: color,
+                opacity: velocityOpacity(velocityOf(hit)),
+                "--velocity-scale": velocityScale(velocityOf(hit)),
+              } as React.CSSProperties
+            }
+            title={`Velocity ${Math.round(velocityOf(hit) * 100)}%`}
+          />
         )}
       </div>
     );
@@ -210,48 +1327,327 @@ export default function Home() {
   return (
     <div
       className={`app ${isDragging ? "dragging" : ""}`}
-      onMouseMove={containerHandlers.onMouseMove}
-      onMouseUp={containerHandlers.onMouseUp}
-      onMouseLeave={containerHandlers.onMouseLeave}
-      onTouchMove={containerHandlers.onTouchMove}
-      onTouchEnd={containerHandlers.onTouchEnd}
-      onTouchCancel={containerHandlers.onTouchCancel}
+      onPointerMove={containerHandlers.onPointerMove}
+      onPointerUp={containerHandlers.onPointerUp}
+      onPointerCancel={containerHandlers.onPointerCancel}
     >
       <header className="header">
         <h1>BeatBubble</h1>
         <div className="transport">
+          {transport === "playing" ? (
+            <button className="transport-btn pause-btn" onClick={handlePause}>
+              Pause
+            </button>
+          ) : (
+            <button className="transport-btn play-btn" onClick={() => handlePlay()}>
+              {transport === "paused" ? "Resume" : "Play"}
+            </button>
+          )}
           <button
-            className={`transport-btn play-btn ${isPlaying ? "disabled" : ""}`}
-            onClick={handlePlay}
-            disabled={isPlaying}
+            className={`transport-btn stop-btn ${transport === "stopped" ? "disabled" : ""}`}
+            onClick={handleStop}
+            disabled={transport === "stopped"}
           >
-            Play
+            Stop
           </button>
           <button
-            className={`transport-btn stop-btn ${!isPlaying ? "disabled" : ""}`}
-            onClick={handleStop}
-            disabled={!isPlaying}
+            className={`tool-btn transport-toggle ${loopEnabled ? "active" : ""}`}
+            onClick={handleLoopToggle}
+            aria-pressed={loopEnabled}
+            title="Loop (Shift+click the step ruler to choose the range)"
           >
-            Stop
+            Loop
+          </button>
+          <button
+            className={`tool-btn transport-toggle ${metronome ? "active" : ""}`}
+            onClick={() => setMetronome(!metronome)}
+            aria-pressed={metronome}
+            title="Metronome click on every beat"
+          >
+            Click
+          </button>
+          <button
+            className={`tool-btn transport-toggle ${countIn ? "active" : ""}`}
+            onClick={() => setCountIn(!countIn)}
+            aria-pressed={countIn}
+            title="One bar of clicks before playback starts"
+          >
+            Count-in
+          </button>
+        </div>
+        <div className="history-controls">
+          <button
+            className="tool-btn"
+            onClick={undo}
+            disabled={!canUndo}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+          >
+            ↶
+          </button>
+          <button
+            className="tool-btn"
+            onClick={redo}
+            disabled={!canRedo}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷
+          </button>
+          <button
+            className={`tool-btn transport-toggle ${selectMode ? "active" : ""}`}
+            onClick={() => setSelectMode(!selectMode)}
+            aria-pressed={selectMode}
+            title="Select: drag a box around notes, then drag them to move (Shift+drag also selects)"
+          >
+            Select
+          </button>
+          <button
+            className="tool-btn"
+            onClick={handleCut}
+            disabled={!hasSelection}
+            aria-label="Cut"
+            title="Cut (Ctrl+X)"
+          >
+            ✂
+          </button>
+          <button
+            className="tool-btn"
+            onClick={handleCopy}
+            disabled={!hasSelection}
+            aria-label="Copy"
+            title="Copy (Ctrl+C)"
+          >
+            ⧉
+          </button>
+          <button
+            className="tool-btn"
+            onClick={handlePaste}
+            disabled={!clipboard}
+            aria-label="Paste"
+            title="Paste at the cursor (Ctrl+V)"
+          >
+            📋
+          </button>
+          <button
+            className="tool-btn"
+            onClick={() => setZoom(stepZoom(zoom, -1))}
+            disabled={zoom === ZOOM_LEVELS[0]}
+            aria-label="Zoom out"
+            title="Zoom out (or pinch the grid)"
+          >
+            −
+          </button>
+          <button
+            className="tool-btn"
+            onClick={() => setZoom(stepZoom(zoom, 1))}
+            disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+            aria-label="Zoom in"
+            title="Zoom in (or pinch the grid)"
+          >
+            +
           </button>
         </div>
         <div className="header-controls">
-          <div className={`control-group ${isPlaying ? "disabled" : ""}`}>
-            <span className="control-label">Tempo</span>
+          <div className={`control-group ${tempoDisabled ? "disabled" : ""}`}>
+            <span className="control-label">
+              Tempo{song.constraints.tempoLocked ? " 🔒" : ""}
+            </span>
             <input
               type="range"
               className="control-slider"
               value={song.bpm}
               onChange={handleBpmChange}
-              min={40}
-              max={200}
+              min={MIN_BPM}
+              max={MAX_BPM}
               step={5}
-              disabled={isPlaying}
+              disabled={tempoDisabled}
             />
             <span className="control-value">{song.bpm}</span>
           </div>
+          <div className="control-group">
+            <span className="control-label">Sound</span>
+            <select
+              className="control-select"
+              value={activeTrack.instrument}
+              onChange={handleInstrumentChange}
+              aria-label="Instrument"
+            >
+              {INSTRUMENTS.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className={`control-group length-control ${barsLocked ? "disabled" : ""}`}>
+            <span className="control-label">Bars</span>
+            <div className="range-chip">
+              <button
+                className="range-chip-btn"
+                onClick={() => handleBarCountChange(-1)}
+                disabled={barsLocked || song.bars <= MIN_BARS}
+                aria-label="Remove last bar"
+              >
+                ◀
+              </button>
+              <span className="range-chip-value">{song.bars}</span>
+              <button
+                className="range-chip-btn"
+                onClick={() => handleBarCountChange(1)}
+                disabled={barsLocked || song.bars >= MAX_BARS}
+                aria-label="Add bar"
+              >
+                ▶
+              </button>
+            </div>
+            <select
+              className="control-select"
+              value={`${song.beatsPerBar}/${song.beatUnit}`}
+              onChange={handleTimeSignatureChange}
+              disabled={barsLocked}
+              aria-label="Time signature"
+            >
+              {TIME_SIGNATURES.map(({ label }) => (
+                <option key={label} value={label}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="control-select"
+              value={song.stepsPerBeat}
+              onChange={handleSubdivisionChange}
+              disabled={barsLocked}
+              aria-label="Steps per beat"
+            >
+              {SUBDIVISIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} / beat
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="control-group scale-control">
+            <span className="control-label">Scale</span>
+            <select
+              className="control-select"
+              value={song.scale?.root ?? "C"}
+              onChange={(e) =>
+                handleScaleChange({
+                  root: e.target.value as PitchClass,
+                  mode: song.scale?.mode ?? "major",
+                })
+              }
+              aria-label="Scale root"
+            >
+              {PITCH_CLASSES.map((root) => (
+                <option
+                  key={root}
+                  value={root}
+                  disabled={!isScaleSelectable({ root, mode: song.scale?.mode ?? "major" })}
+                >
+                  {root}
+                </option>
+              ))}
+            </select>
+            <select
+              className="control-select"
+              value={song.scale?.mode ?? ""}
+              onChange={(e) =>
+                handleScaleChange(
+                  e.target.value
+                    ? { root: song.scale?.root ?? "C", mode: e.target.value as ScaleMode }
+                    : undefined
+                )
+              }
+              aria-label="Scale mode"
+            >
+              <option value="">Free</option>
+              {SCALE_MODES.map((mode) => (
+                <option
+                  key={mode}
+                  value={mode}
+                  disabled={!isScaleSelectable({ root: song.scale?.root ?? "C", mode })}
+                >
+                  {SCALE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="control-group">
+            <span className="control-label">Groove</span>
+            <select
+              className="control-select"
+              value={song.groove?.template ?? ""}
+              onChange={(e) => handleGrooveTemplateChange(e.target.value as GrooveId | "")}
+              aria-label="Groove template"
+            >
+              <option value="">Straight</option>
+              {listGrooves().map((groove) => (
+                <option key={groove.id} value={groove.id}>
+                  {groove.label}
+                </option>
+              ))}
+            </select>
+            {song.groove && (
+              <input
+                type="range"
+                className="control-slider"
+                value={Math.round(song.groove.amount * 100)}
+                onChange={(e) => handleGrooveAmountChange(parseInt(e.target.value, 10) / 100)}
+                min={0}
+                max={100}
+                aria-label="Groove amount"
+                title={`Amount ${Math.round(song.groove.amount * 100)}%`}
+              />
+            )}
+          </div>
+          <div className="control-group transpose-control">
+            <span className="control-label">Transpose</span>
+            <div className="range-chip">
+              <button
+                className="range-chip-btn"
+                onClick={() => handleTranspose(-1)}
+                aria-label="Transpose down"
+              >
+                ◀
+              </button>
+              <select
+                className="control-select"
+                value={transposeStep.label}
+                onChange={(e) =>
+                  setTransposeStep(
+                    TRANSPOSE_STEPS.find((ts) => ts.label === e.target.value) ?? TRANSPOSE_STEPS[0]
+                  )
+                }
+                aria-label="Transpose step"
+              >
+                {TRANSPOSE_STEPS.map(({ label }) => (
+                  <option key={label} value={label}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="range-chip-btn"
+                onClick={() => handleTranspose(1)}
+                aria-label="Transpose up"
+              >
+                ▶
+              </button>
+            </div>
+          </div>
           <div className="control-group range-control">
-            <span className="control-label">Range</span>
+            <span className="control-label">
+              Range
+              {hiddenNoteCount > 0 && (
+                <span className="range-hidden" title="Notes kept outside the visible range">
+                  {" "}
+                  +{hiddenNoteCount} hidden
+                </span>
+              )}
+            </span>
             <div className="range-chips">
               <div className="range-chip">
                 <button
@@ -261,7 +1657,7 @@ export default function Home() {
                 >
                   ◀
                 </button>
-                <span className="range-chip-value">{song.constraints.minNote}</span>
+                <span className="range-chip-value">{activeTrack.minNote}</span>
                 <button
                   className="range-chip-btn"
                   onClick={() => handlePitchBoundChange("min", "up")}
@@ -279,7 +1675,7 @@ export default function Home() {
                 >
                   ◀
                 </button>
-                <span className="range-chip-value">{song.constraints.maxNote}</span>
+                <span className="range-chip-value">{activeTrack.maxNote}</span>
                 <button
                   className="range-chip-btn"
                   onClick={() => handlePitchBoundChange("max", "up")}
@@ -291,14 +1687,576 @@ export default function Home() {
             </div>
           </div>
         </div>
-        <button className="reset-btn" onClick={handleReset}>
-          Reset
-        </button>
+        <div className="song-actions">
+          <details className="export-menu library-menu">
+            <summary className="tool-btn">Library</summary>
+            <div className="export-menu-items">
+              {library.error && (
+                <p className="library-note">Songs can&apos;t be saved here: {library.error}</p>
+              )}
+              {library.entries.length === 0 && (
+                <p className="library-note">Songs you work on are kept here automatically.</p>
+              )}
+              {library.entries.map((entry) => {
+                const isOpen = entry.id === library.current.id;
+                return (
+                  <div key={entry.id} className={`library-entry ${isOpen ? "open" : ""}`}>
+                    <button
+                      className="library-open"
+                      onClick={() => runLibraryAction(() => library.open(entry.id))}
+                      disabled={isOpen}
+                      title={isOpen ? "This is the song you are editing" : "Open"}
+                    >
+                      <span
+                        className="library-thumbnail"
+                        style={{ backgroundImage: `url("${entry.thumbnail}")` }}
+                      />
+                      <span className="library-details">
+                        <span className="library-name">{entry.name}</span>
+                        <span className="library-date">
+                          {new Date(entry.updatedAt).toLocaleString()}
+                        </span>
+                      </span>
+                    </button>
+                    <span className="kit-row-actions">
+                      <button
+                        onClick={() => handleLibraryRename(entry)}
+                        aria-label={`Rename ${entry.name}`}
+                        title="Rename"
+                      >
+                        ✎
+                      </button>
+                      <button
+                        onClick={() => runLibraryAction(() => library.duplicate(entry.id))}
+                        aria-label={`Duplicate ${entry.name}`}
+                        title="Duplicate"
+                      >
+                        ⧉
+                      </button>
+                      <button
+                        onClick={() => handleLibraryDelete(entry)}
+                        disabled={isOpen}
+                        aria-label={`Delete ${entry.name}`}
+                        title={isOpen ? "Open another song to delete this one" : "Delete"}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </details>
+          <button className="tool-btn" onClick={handleSave}>
+            Save
+          </button>
+          <button className="tool-btn" onClick={() => songFileInputRef.current?.click()}>
+            Open
+          </button>
+          <button
+            className="tool-btn"
+            onClick={handleCopyLink}
+            onBlur={() => setLinkCopied(false)}
+            title="Copy a link that opens this song"
+          >
+            {linkCopied ? "Link copied" : "Copy link"}
+          </button>
+          <input
+            ref={songFileInputRef}
+            type="file"
+            accept=".json,application/json,.mid,.midi,audio/midi"
+            onChange={handleOpen}
+            hidden
+          />
+          <details className="export-menu">
+            <summary className="tool-btn">Export</summary>
+            <div className="export-menu-items">
+              <div className="export-menu-row">
+                <button onClick={handleExportWav} disabled={isRendering}>
+                  {isRendering ? "Rendering…" : "Audio (.wav)"}
+                </button>
+                <label>
+                  ×
+                  <input
+                    type="number"
+                    min={1}
+                    max={16}
+                    value={renderLoops}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!isNaN(value)) setRenderLoops(Math.max(1, Math.min(16, value)));
+                    }}
+                    aria-label="Loops to render"
+                  />
+                </label>
+              </div>
+              <button onClick={handleExportMidi}>MIDI (.mid)</button>
+              <button onClick={handleExportLegacy}>Legacy grid (.json)</button>
+            </div>
+          </details>
+          <details className="export-menu kit-menu">
+            <summary className="tool-btn">Drums</summary>
+            <div className="export-menu-items">
+              {DRUMS.map(({ id, label, color }) => (
+                <div key={id} className="export-menu-row kit-row">
+                  <label className="kit-row-toggle">
+                    <input
+                      type="checkbox"
+                      checked={visibleDrumRows(song).includes(id)}
+                      onChange={(e) => handleDrumRowToggle(id, e.target.checked)}
+                      disabled={!song.constraints.drumsEnabled}
+                    />
+                    <span className="kit-swatch" style={{ backgroundColor: color }} />
+                    {label}
+                  </label>
+                  <div className="kit-row-actions">
+                    <button onClick={() => handleChooseSample(id)} title="Use an audio file">
+                      {sampledDrums.includes(id) ? "Sample ✓" : "Sample…"}
+                    </button>
+                    {sampledDrums.includes(id) && (
+                      <button
+                        onClick={() => handleClearSample(id)}
+                        aria-label={`Use the built-in ${label}`}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              <input
+                ref={sampleFileInputRef}
+                type="file"
+                accept="audio/*"
+                onChange={handleSampleFile}
+                hidden
+              />
+            </div>
+          </details>
+          <details className="export-menu mixer-menu">
+            <summary className="tool-btn">Mixer</summary>
+            <div className="export-menu-items">
+              <label className="mixer-row">
+                <span className="mixer-label">Master</span>
+                <input
+                  type="range"
+                  className="control-slider"
+                  value={Math.round((song.volume ?? 1) * 100)}
+                  onChange={(e) =>
+                    setSong((prev) => setVolume(prev, parseInt(e.target.value, 10) / 100))
+                  }
+                  min={0}
+                  max={100}
+                  aria-label="Master volume"
+                />
+              </label>
+              {BUS_IDS.map((busId) => {
+                const bus = mix[busId];
+                const label = BUS_LABELS[busId];
+                return (
+                  <div key={busId} className="mixer-bus">
+                    <div className="mixer-row">
+                      <span className="mixer-label">{label}</span>
+                      <button
+                        className={`track-toggle ${bus.muted ? "active" : ""}`}
+                        onClick={() => handleBusChange(busId, { muted: !bus.muted })}
+                        aria-pressed={bus.muted}
+                        aria-label={`Mute ${label}`}
+                      >
+                        M
+                      </button>
+                    </div>
+                    {(
+                      [
+                        ["volume", "Vol", 0, 100],
+                        ["pan", "Pan", -100, 100],
+                        ["reverb", "Reverb", 0, 100],
+                        ["delay", "Delay", 0, 100],
+                      ] as const
+                    ).map(([key, name, min, max]) => (
+                      <label key={key} className="mixer-row">
+                        <span className="mixer-label">{name}</span>
+                        <input
+                          type="range"
+                          className="control-slider"
+                          value={Math.round(bus[key] * 100)}
+                          onChange={(e) =>
+                            handleBusChange(busId, { [key]: parseInt(e.target.value, 10) / 100 })
+                          }
+                          min={min}
+                          max={max}
+                          aria-label={`${label} ${name.toLowerCase()}`}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                );
+              })}
+              <div className="mixer-bus">
+                <label className="mixer-row">
+                  <span className="mixer-label">Room</span>
+                  <input
+                    type="range"
+                    className="control-slider"
+                    value={mix.reverbDecay}
+                    onChange={(e) =>
+                      handleMixEffectsChange({ reverbDecay: parseFloat(e.target.value) })
+                    }
+                    min={MIN_REVERB_DECAY}
+                    max={MAX_REVERB_DECAY}
+                    step={0.5}
+                    aria-label="Reverb decay"
+                    title={`${mix.reverbDecay} s`}
+                  />
+                </label>
+                <label className="mixer-row">
+                  <span className="mixer-label">Echo</span>
+                  <select
+                    className="control-select"
+                    value={mix.delayBeats}
+                    onChange={(e) =>
+                      handleMixEffectsChange({ delayBeats: parseFloat(e.target.value) })
+                    }
+                    aria-label="Delay time"
+                  >
+                    {DELAY_DIVISIONS.map(({ beats, label }) => (
+                      <option key={beats} value={beats}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="mixer-row">
+                  <span className="mixer-label">Repeats</span>
+                  <input
+                    type="range"
+                    className="control-slider"
+                    value={Math.round(mix.delayFeedback * 100)}
+                    onChange={(e) =>
+                      handleMixEffectsChange({
+                        delayFeedback: parseInt(e.target.value, 10) / 100,
+                      })
+                    }
+                    min={0}
+                    max={90}
+                    aria-label="Delay feedback"
+                  />
+                </label>
+                <label className="mixer-row">
+                  <span className="mixer-label">Tone</span>
+                  <input
+                    type="range"
+                    className="control-slider"
+                    value={cutoffToSlider(mix.filterCutoff)}
+                    onChange={(e) =>
+                      handleMixEffectsChange({
+                        filterCutoff: sliderToCutoff(parseInt(e.target.value, 10)),
+                      })
+                    }
+                    min={0}
+                    max={100}
+                    aria-label="Low-pass filter"
+                    title={`${mix.filterCutoff} Hz`}
+                  />
+                </label>
+              </div>
+            </div>
+          </details>
+          {/* A student working on a published assignment can't switch into teacher mode */}
+          {(mode === "teacher" || !song.assignment) && (
+            <button
+              className={`tool-btn mode-btn ${mode === "teacher" ? "active" : ""}`}
+              onClick={() => setMode(mode === "teacher" ? "student" : "teacher")}
+              aria-pressed={mode === "teacher"}
+            >
+              Teacher
+            </button>
+          )}
+          <button
+            className="reset-btn"
+            onClick={handleReset}
+            title="Start over; the song so far stays in the Library"
+          >
+            Reset
+          </button>
+        </div>
       </header>
 
+      {mode === "teacher" && (
+        <section className="teacher-panel" aria-label="Assignment settings">
+          <div className="teacher-locks">
+            {LOCK_OPTIONS.map(({ key, label }) => (
+              <label key={key} className="teacher-lock">
+                <input
+                  type="checkbox"
+                  checked={song.constraints[key] as boolean}
+                  onChange={(e) => handleLockChange(key, e.target.checked)}
+                />
+                {label}
+              </label>
+            ))}
+            <label className="teacher-lock">
+              <input
+                type="checkbox"
+                checked={song.constraints.allowAccidentals}
+                onChange={(e) => handleAccidentalsChange(e.target.checked)}
+              />
+              Sharps / flats (chromatic grid)
+            </label>
+            {song.constraints.allowAccidentals && (
+              <label className="teacher-lock">
+                When turned off, existing sharps
+                <select
+                  className="control-select"
+                  value={accidentalPolicy}
+                  onChange={(e) => setAccidentalPolicy(e.target.value as AccidentalPolicy)}
+                >
+                  {ACCIDENTAL_POLICIES.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+          <div className="teacher-assignment">
+            <input
+              type="text"
+              className="teacher-input"
+              placeholder="Assignment title"
+              value={song.assignment?.title ?? ""}
+              onChange={(e) => handleAssignmentChange("title", e.target.value)}
+            />
+            <textarea
+              className="teacher-input"
+              placeholder="Instructions for students"
+              rows={2}
+              value={song.assignment?.instructions ?? ""}
+              onChange={(e) => handleAssignmentChange("instructions", e.target.value)}
+            />
+          </div>
+          <button className="reset-btn" onClick={handlePublishAssignment}>
+            Publish assignment
+          </button>
+        </section>
+      )}
+
+      {mode === "student" && song.assignment && (
+        <section className="assignment-banner" aria-label="Assignment">
+          <strong>{song.assignment.title}</strong>
+          {song.assignment.instructions && <p>{song.assignment.instructions}</p>}
+        </section>
+      )}
+
+      <nav className="track-bar" aria-label="Tracks">
+        {song.melody.tracks.map((track) => (
+          <div
+            key={track.id}
+            className={`track-tab ${track.id === trackId ? "active" : ""} ${
+              track.muted ? "muted" : ""
+            }`}
+          >
+            <button
+              className="track-tab-name"
+              onClick={() => setActiveTrackId(track.id)}
+              aria-pressed={track.id === trackId}
+            >
+              {track.name || "Untitled"}
+            </button>
+            <button
+              className={`track-toggle ${track.muted ? "on" : ""}`}
+              onClick={() => handleTrackChange(track.id, { muted: !track.muted })}
+              aria-pressed={track.muted}
+              aria-label={`Mute ${track.name}`}
+              title="Mute"
+            >
+              M
+            </button>
+            <button
+              className={`track-toggle ${track.solo ? "on" : ""}`}
+              onClick={() => handleTrackChange(track.id, { solo: !track.solo })}
+              aria-pressed={track.solo}
+              aria-label={`Solo ${track.name}`}
+              title="Solo"
+            >
+              S
+            </button>
+          </div>
+        ))}
+        <button
+          className="tool-btn"
+          onClick={handleAddTrack}
+          disabled={song.melody.tracks.length >= MAX_TRACKS}
+        >
+          + Track
+        </button>
+        <div className="track-settings">
+          <input
+            type="text"
+            className="teacher-input track-name-input"
+            value={activeTrack.name}
+            onChange={(e) => handleTrackChange(trackId, { name: e.target.value })}
+            aria-label="Track name"
+          />
+          <input
+            type="range"
+            className="control-slider"
+            value={Math.round(activeTrack.volume * 100)}
+            onChange={(e) =>
+              handleTrackChange(trackId, { volume: parseInt(e.target.value, 10) / 100 })
+            }
+            min={0}
+            max={100}
+            aria-label="Track volume"
+            title={`Volume ${Math.round(activeTrack.volume * 100)}%`}
+          />
+          <button
+            className="tool-btn"
+            onClick={handleRemoveTrack}
+            disabled={song.melody.tracks.length <= 1}
+            aria-label={`Delete ${activeTrack.name}`}
+            title="Delete track"
+          >
+            ×
+          </button>
+        </div>
+      </nav>
+
+      <section className="arrangement-bar" aria-label="Patterns and arrangement">
+        <div className="pattern-list">
+          {song.patterns.map((pattern) => (
+            <div
+              key={pattern.id}
+              className={`track-tab ${pattern.id === patternId ? "active" : ""}`}
+            >
+              <button
+                className="track-tab-name"
+                onClick={() => setActivePatternId(pattern.id)}
+                aria-pressed={pattern.id === patternId}
+                title="Edit this pattern"
+              >
+                {pattern.name || "Untitled"}
+              </button>
+            </div>
+          ))}
+          <button
+            className="tool-btn"
+            onClick={handleAddPattern}
+            disabled={barsLocked || song.patterns.length >= MAX_PATTERNS}
+          >
+            + Pattern
+          </button>
+          <button
+            className="tool-btn"
+            onClick={handleDuplicatePattern}
+            disabled={barsLocked || song.patterns.length >= MAX_PATTERNS}
+          >
+            Duplicate
+          </button>
+          <div className="track-settings">
+            <input
+              type="text"
+              className="teacher-input track-name-input"
+              value={activePattern.name}
+              onChange={(e) => setSong((prev) => renamePattern(prev, patternId, e.target.value))}
+              aria-label="Pattern name"
+            />
+            <button
+              className="tool-btn"
+              onClick={handleRemovePattern}
+              disabled={barsLocked || song.patterns.length <= 1}
+              aria-label={`Delete pattern ${activePattern.name}`}
+              title="Delete pattern"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+        <ol className="arrangement-timeline" aria-label="Arrangement">
+          {song.arrangement.map((entry, index) => (
+            <li
+              key={index}
+              className={`arrangement-entry ${
+                entry.patternId === patternId ? "editing" : ""
+              } ${playing?.entryIndex === index ? "playing" : ""}`}
+            >
+              <button
+                className="arrangement-entry-name"
+                onClick={() => setActivePatternId(entry.patternId)}
+                title="Edit this pattern"
+              >
+                {findPattern(song, entry.patternId)?.name || "Untitled"}
+              </button>
+              <span className="range-chip">
+                <button
+                  className="range-chip-btn"
+                  onClick={() =>
+                    setSong((prev) => setArrangementRepeats(prev, index, entry.repeats - 1))
+                  }
+                  disabled={barsLocked || entry.repeats <= 1}
+                  aria-label="Fewer repeats"
+                >
+                  −
+                </button>
+                <span className="range-chip-value">×{entry.repeats}</span>
+                <button
+                  className="range-chip-btn"
+                  onClick={() =>
+                    setSong((prev) => setArrangementRepeats(prev, index, entry.repeats + 1))
+                  }
+                  disabled={barsLocked || entry.repeats >= MAX_REPEATS}
+                  aria-label="More repeats"
+                >
+                  +
+                </button>
+              </span>
+              <span className="arrangement-entry-actions">
+                <button
+                  onClick={() => setSong((prev) => moveArrangementEntry(prev, index, index - 1))}
+                  disabled={barsLocked || index === 0}
+                  aria-label="Move earlier"
+                >
+                  ◀
+                </button>
+                <button
+                  onClick={() => setSong((prev) => moveArrangementEntry(prev, index, index + 1))}
+                  disabled={barsLocked || index === song.arrangement.length - 1}
+                  aria-label="Move later"
+                >
+                  ▶
+                </button>
+                <button
+                  onClick={() => setSong((prev) => removeArrangementEntry(prev, index))}
+                  disabled={barsLocked || song.arrangement.length <= 1}
+                  aria-label="Remove from arrangement"
+                >
+                  ×
+                </button>
+              </span>
+            </li>
+          ))}
+          <li>
+            <button
+              className="tool-btn"
+              onClick={() => setSong((prev) => addArrangementEntry(prev, patternId))}
+              disabled={barsLocked || song.arrangement.length >= MAX_ARRANGEMENT_ENTRIES}
+            >
+              + {activePattern.name || "Untitled"}
+            </button>
+          </li>
+        </ol>
+      </section>
+
       <main className="main">
-        <div className="grid-container" ref={gridContainerRef}>
+        <div
+          className="grid-container"
+          ref={gridContainerRef}
+          style={{ "--zoom": zoom } as React.CSSProperties}
+        >
           <div className="labels grid">
+            <div className="label-row ruler-spacer" />
+            <div className="label-row step-ruler-spacer" />
             {noteRows.map((noteName) => (
               <div key={noteName} className="label-row">
                 <div
@@ -309,31 +2267,142 @@ export default function Home() {
                 </div>
               </div>
             ))}
-            {DRUM_ROWS.map((drumId) => (
+            {drumRows.map((drumId) => (
               <div key={drumId} className="label-row drum-row">
                 <div
                   className="label-cell"
                   style={{ backgroundColor: colorForDrum(drumId) }}
                 >
-                  {drumId}
+                  {getDrum(drumId).label}
                 </div>
               </div>
             ))}
           </div>
           <div className="grid" ref={gridRef}>
-            {noteRows.map((noteName) => (
-              <div key={noteName} className="grid-row">
-                {stepsArray.map((step) => renderMelodyCell(noteName, step))}
-              </div>
-            ))}
-            {DRUM_ROWS.map((drumId) => (
-              <div key={drumId} className="grid-row drum-row">
-                {stepsArray.map((step) => renderDrumCell(drumId, step))}
-              </div>
-            ))}
+            {renderTransportMarkers()}
+            <div className="bar-ruler">
+              {barsArray.map((bar) => (
+                <div
+                  key={bar}
+                  className="bar-ruler-cell"
+                  style={{ width: `calc(var(--cell-width) * ${barSteps})` }}
+                >
+                  <span className="bar-number">{bar + 1}</span>
+                  <span className="bar-actions">
+                    {!barsLocked && (
+                      <>
+                        <button
+                          onClick={() => setSong((prev) => insertBars(prev, bar))}
+                          disabled={song.bars >= MAX_BARS}
+                          aria-label={`Insert bar before bar ${bar + 1}`}
+                          title="Insert bar before"
+                        >
+                          +
+                        </button>
+                        <button
+                          onClick={() => setSong((prev) => duplicateBar(prev, bar))}
+                          disabled={song.bars >= MAX_BARS}
+                          aria-label={`Duplicate bar ${bar + 1}`}
+                          title="Duplicate bar (Ctrl+D at the cursor)"
+                        >
+                          ⧉
+                        </button>
+                        <button
+                          onClick={() => setSong((prev) => removeBar(prev, bar))}
+                          disabled={song.bars <= MIN_BARS}
+                          aria-label={`Remove bar ${bar + 1}`}
+                          title="Remove bar"
+                        >
+                          ×
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => setSong((prev) => clearBar(prev, patternId, bar))}
+                      aria-label={`Clear bar ${bar + 1}`}
+                      title="Clear this bar of the pattern (Ctrl+Backspace at the cursor)"
+                    >
+                      ⌫
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div
+              className={`step-ruler ${gridStart === null ? "disabled" : ""}`}
+              title={
+                gridStart === null
+                  ? "Add this pattern to the arrangement to play it"
+                  : "Click: play from here · Shift+click: loop from the cursor to here"
+              }
+            >
+              {stepsArray.map((step) => (
+                <div
+                  key={step}
+                  className="step-ruler-cell"
+                  onClick={(e) => handleRulerClick(step, e.shiftKey)}
+                />
+              ))}
+            </div>
+            <div
+              className="grid-body"
+              role="grid"
+              aria-label={`${activePattern.name || "Untitled"} pattern, ${activeTrack.name}`}
+              aria-rowcount={gridRows.length}
+              aria-colcount={steps}
+              aria-multiselectable
+              onKeyDown={handleGridKeyDown}
+            >
+              {noteRows.map((noteName, row) => (
+                <div key={noteName} className="grid-row" role="row">
+                  {stepsArray.map((step) => renderMelodyCell(noteName, row, step))}
+                </div>
+              ))}
+              {drumRows.map((drumId, i) => (
+                <div key={drumId} className="grid-row drum-row" role="row">
+                  {stepsArray.map((step) => renderDrumCell(drumId, noteRows.length + i, step))}
+                </div>
+              ))}
+            </div>
           </div>
         </div>
       </main>
+      {/* Closing without a choice (Cancel or Escape) leaves the range as it was */}
+      <dialog
+        ref={rangeDialogRef}
+        className="confirm-dialog"
+        aria-labelledby="range-dialog-title"
+        onClose={() => setRangeShrink(null)}
+      >
+        {rangeShrink && (
+          <>
+            <p id="range-dialog-title">
+              {rangeShrink.notes} note{rangeShrink.notes === 1 ? "" : "s"} will be outside the
+              new range.
+            </p>
+            <p className="confirm-dialog-hint">
+              Kept notes stay in the song, hidden until the range covers them again.
+            </p>
+            <div className="confirm-dialog-actions">
+              <button className="tool-btn" onClick={() => rangeDialogRef.current?.close()}>
+                Cancel
+              </button>
+              <button className="tool-btn" onClick={() => applyRangeShrink("delete")}>
+                Delete them
+              </button>
+              <button className="tool-btn" autoFocus onClick={() => applyRangeShrink("keep")}>
+                Keep them
+              </button>
+            </div>
+          </>
+        )}
+      </dialog>
+      <div className="sr-only" role="status" aria-live="polite">
+        {describePlayback()}
+      </div>
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,265 @@
+import type { DrumId } from "@/core/types";
+import { DEFAULT_VELOCITY } from "@/core/utils";
+import { velocityBrightness, velocityGain } from "./instruments";
+import type { SynthOutput } from "./synth";
+
+export type DrumVoice = (out: SynthOutput, time: number, velocity: number) => void;
+
+const voices = new Map<DrumId, DrumVoice>();
+// User-supplied recordings replace the synthesized voice of the same drum
+const samples = new Map<DrumId, AudioBuffer>();
+
+export function registerDrumVoice(id: DrumId, voice: DrumVoice): void {
+  voices.set(id, voice);
+}
+
+// Decoded buffers aren't tied to the decoding context, so offline renders use them too
+export async function loadDrumSample(
+  ctx: BaseAudioContext,
+  id: DrumId,
+  data: ArrayBuffer
+): Promise<void> {
+  samples.set(id, await ctx.decodeAudioData(data));
+}
+
+export function clearDrumSample(id: DrumId): void {
+  samples.delete(id);
+}
+
+export function hasDrumSample(id: DrumId): boolean {
+  return samples.has(id);
+}
+
+export function playDrum(
+  out: SynthOutput,
+  drumId: DrumId,
+  time: number,
+  velocity: number = DEFAULT_VELOCITY
+): void {
+  const sample = samples.get(drumId);
+  if (sample) {
+    playSample(out, sample, time, velocity);
+    return;
+  }
+  voices.get(drumId)?.(out, time, velocity);
+}
+
+function playSample(
+  { ctx, destination }: SynthOutput,
+  buffer: AudioBuffer,
+  time: number,
+  velocity: number
+): void {
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  const gain = ctx.createGain();
+  gain.gain.value = 0.8 * velocityGain(velocity);
+
+  source.connect(gain);
+  gain.connect(destination);
+  source.start(time);
+}
+
+function playKick({ ctx, destination }: SynthOutput, time: number, velocity: number): void {
+  const osc = ctx.createOscillator();
+  osc.type = "sine";
+  osc.frequency.setValueAtTime(150 * Math.sqrt(velocityBrightness(velocity)), time);
+  osc.frequency.exponentialRampToValueAtTime(40, time + 0.1);
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.8 * velocityGain(velocity), time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.3);
+
+  osc.connect(gain);
+  gain.connect(destination);
+
+  osc.start(time);
+  osc.stop(time + 0.3);
+}
+
+function playSnare(
+  { ctx, destination, noiseBuffer }: SynthOutput,
+  time: number,
+  velocity: number
+): void {
+  const level = velocityGain(velocity);
+  const noise = ctx.createBufferSource();
+  noise.buffer = noiseBuffer;
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.value = 3000 * velocityBrightness(velocity);
+  filter.Q.value = 1;
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.5 * level, time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
+
+  const osc = ctx.createOscillator();
+  osc.type = "triangle";
+  osc.frequency.value = 180;
+
+  const oscGain = ctx.createGain();
+  oscGain.gain.setValueAtTime(0.4 * level, time);
+  oscGain.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
+
+  noise.connect(filter);
+  filter.connect(gain);
+  gain.connect(destination);
+
+  osc.connect(oscGain);
+  oscGain.connect(destination);
+
+  noise.start(time);
+  noise.stop(time + 0.15);
+  osc.start(time);
+  osc.stop(time + 0.05);
+}
+
+function playHihat(
+  { ctx, destination, noiseBuffer }: SynthOutput,
+  time: number,
+  velocity: number
+): void {
+  const noise = ctx.createBufferSource();
+  noise.buffer = noiseBuffer;
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = "highpass";
+  filter.frequency.value = 7000 * Math.sqrt(velocityBrightness(velocity));
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.2 * velocityGain(velocity), time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
+
+  noise.connect(filter);
+  filter.connect(gain);
+  gain.connect(destination);
+
+  noise.start(time);
+  noise.stop(time + 0.05);
+}
+
+function playOpenHat(
+  { ctx, destination, noiseBuffer }: SynthOutput,
+  time: number,
+  velocity: number
+): void {
+  const noise = ctx.createBufferSource();
+  noise.buffer = noiseBuffer;
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = "highpass";
+  filter.frequency.value = 6000 * Math.sqrt(velocityBrightness(velocity));
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.18 * velocityGain(velocity), time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.35);
+
+  noise.connect(filter);
+  filter.connect(gain);
+  gain.connect(destination);
+
+  noise.start(time);
+  noise.stop(time + 0.35);
+}
+
+function playClap(
+  { ctx, destination, noiseBuffer }: SynthOutput,
+  time: number,
+  velocity: number
+): void {
+  const level = velocityGain(velocity);
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.value = 1200 * velocityBrightness(velocity);
+  filter.Q.value = 0.8;
+  filter.connect(destination);
+
+  // A few quick bursts then a short tail, like several hands not quite together
+  for (const [offset, decay] of [
+    [0, 0.01],
+    [0.012, 0.01],
+    [0.024, 0.12],
+  ]) {
+    const noise = ctx.createBufferSource();
+    noise.buffer = noiseBuffer;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.5 * level, time + offset);
+    gain.gain.exponentialRampToValueAtTime(0.01, time + offset + decay);
+
+    noise.connect(gain);
+    gain.connect(filter);
+
+    noise.start(time + offset);
+    noise.stop(time + offset + decay);
+  }
+}
+
+function playTom({ ctx, destination }: SynthOutput, time: number, velocity: number): void {
+  const osc = ctx.createOscillator();
+  osc.type = "sine";
+  osc.frequency.setValueAtTime(220 * Math.sqrt(velocityBrightness(velocity)), time);
+  osc.frequency.exponentialRampToValueAtTime(110, time + 0.25);
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.6 * velocityGain(velocity), time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.35);
+
+  osc.connect(gain);
+  gain.connect(destination);
+
+  osc.start(time);
+  osc.stop(time + 0.35);
+}
+
+function playRim({ ctx, destination }: SynthOutput, time: number, velocity: number): void {
+  const osc = ctx.createOscillator();
+  osc.type = "triangle";
+  osc.frequency.value = 1700 * Math.sqrt(velocityBrightness(velocity));
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.4 * velocityGain(velocity), time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.03);
+
+  osc.connect(gain);
+  gain.connect(destination);
+
+  osc.start(time);
+  osc.stop(time + 0.03);
+}
+
+function playCowbell({ ctx, destination }: SynthOutput, time: number, velocity: number): void {
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.value = 800 * velocityBrightness(velocity);
+  filter.Q.value = 1;
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.25 * velocityGain(velocity), time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.3);
+
+  filter.connect(gain);
+  gain.connect(destination);
+
+  for (const frequency of [540, 800]) {
+    const osc = ctx.createOscillator();
+    osc.type = "square";
+    osc.frequency.value = frequency;
+    osc.connect(filter);
+    osc.start(time);
+    osc.stop(time + 0.3);
+  }
+}
+
+registerDrumVoice("kick", playKick);
+registerDrumVoice("snare", playSnare);
+registerDrumVoice("hihat", playHihat);
+registerDrumVoice("openhat", playOpenHat);
+registerDrumVoice("clap", playClap);
+registerDrumVoice("tom", playTom);
+registerDrumVoice("rim", playRim);
+registerDrumVoice("cowbell", playCowbell);
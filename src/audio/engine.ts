@@ -1,20 +1,36 @@
-import type { DrumId, Song } from "@/core/types";
-import { noteNameToMidi, totalSteps } from "@/core/utils";
-
-export type TransportState = "stopped" | "playing";
-
-function midiToFreq(midi: number): number {
-  return 440 * Math.pow(2, (midi - 69) / 12);
-}
+import type { DrumId, InstrumentId, Song } from "@/core/types";
+import { arrangementSteps } from "@/core/arrangement";
+import { DEFAULT_VELOCITY, stepsPerBar } from "@/core/utils";
+import type { SynthOutput } from "./synth";
+import { clearDrumSample, loadDrumSample, playDrum } from "./drums";
+import { playClick } from "./metronome";
+import { Mixer } from "./mixer";
+import { createNoiseBuffer, playMelodyNote, scheduleStep, toBus } from "./synth";
+
+export type TransportState = "stopped" | "playing" | "paused";
+
+// Steps count along the arrangement; a loop plays [start, end) over and over
+export type TransportOptions = {
+  loop: { start: number; end: number } | null;
+  metronome: boolean;
+  countIn: boolean; // one bar of clicks before playback starts
+};
 
 export class AudioEngine {
   private ctx: AudioContext | null = null;
-  private masterGain: GainNode | null = null;
+  private mixer: Mixer | null = null;
+  // Last song handed to applyMix(), so a mixer built later starts from its settings
+  private mixSong: Song | null = null;
+  private output: SynthOutput | null = null;
   private state: TransportState = "stopped";
   private schedulerInterval: ReturnType<typeof setInterval> | null = null;
+  private animationFrame: number | null = null;
   private nextNoteTime = 0;
   private currentStep = 0;
-  private noiseBuffer: AudioBuffer | null = null;
+  // Steps already handed to the audio graph, oldest first, until the playhead passes them
+  private scheduledSteps: { step: number; time: number }[] = [];
+  private playheadStep: number | null = null;
+  private options: TransportOptions = { loop: null, metronome: false, countIn: false };
 
   private readonly SCHEDULE_INTERVAL = 25;
   private readonly LOOKAHEAD = 0.15;
@@ -26,231 +42,177 @@ export class AudioEngine {
     if (this.ctx.state === "suspended") {
       await this.ctx.resume();
     }
-    if (!this.masterGain) {
-      this.masterGain = this.ctx.createGain();
-      this.masterGain.gain.value = 0.5;
-      this.masterGain.connect(this.ctx.destination);
+    if (!this.mixer) {
+      this.mixer = new Mixer(this.ctx, this.ctx.destination);
+      if (this.mixSong) this.mixer.apply(this.mixSong);
     }
-    if (!this.noiseBuffer) {
-      this.noiseBuffer = this.createNoiseBuffer();
+    if (!this.output) {
+      this.output = {
+        ctx: this.ctx,
+        destination: this.mixer.master,
+        buses: this.mixer.buses,
+        noiseBuffer: createNoiseBuffer(this.ctx),
+      };
     }
   }
 
-  private createNoiseBuffer(): AudioBuffer {
-    const bufferSize = this.ctx!.sampleRate * 0.5;
-    const buffer = this.ctx!.createBuffer(1, bufferSize, this.ctx!.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
-    return buffer;
-  }
-
-  play(getSong: () => Song, onStep?: (step: number) => void): void {
+  // Starts at `fromStep` of the arrangement. Tempo, length and arrangement are read from
+  // getSong() on every scheduler tick, so edits made while playing apply from the next step.
+  play(getSong: () => Song, onStep?: (step: number) => void, fromStep: number = 0): void {
     if (this.state === "playing") return;
-    if (!this.ctx || !this.masterGain) {
+    if (!this.ctx || !this.mixer || !this.output) {
       console.error("AudioEngine not initialized. Call init() first.");
       return;
     }
 
+    const initialSong = getSong();
+    const { countIn } = this.options;
     this.state = "playing";
-    this.currentStep = 0;
+    this.currentStep = Math.max(0, fromStep) % arrangementSteps(initialSong);
     this.nextNoteTime = this.ctx.currentTime + 0.05;
-
-    const initialSong = getSong();
-    const secondsPerBeat = 60 / initialSong.bpm;
-    const secondsPerStep = secondsPerBeat / initialSong.stepsPerBeat;
-    const total = totalSteps(initialSong);
+    this.scheduledSteps = [];
+    this.playheadStep = null;
+
+    if (countIn) {
+      const secondsPerBeat = 60 / initialSong.bpm;
+      for (let beat = 0; beat < initialSong.beatsPerBar; beat++) {
+        playClick(this.output, this.nextNoteTime, beat === 0);
+        this.nextNoteTime += secondsPerBeat;
+      }
+    }
 
     const scheduler = () => {
-      if (!this.ctx || this.state !== "playing") return;
+      if (!this.ctx || !this.mixer || !this.output || this.state !== "playing") return;
 
       const currentSong = getSong();
+      this.mixer.apply(currentSong);
+
+      const secondsPerStep = 60 / currentSong.bpm / currentSong.stepsPerBeat;
+      const total = arrangementSteps(currentSong);
+
+      const { loop, metronome } = this.options;
 
       while (this.nextNoteTime < this.ctx.currentTime + this.LOOKAHEAD) {
-        this.scheduleStep(currentSong, this.currentStep, this.nextNoteTime, secondsPerStep);
+        // A shorter song or arrangement wraps to the start instead of running past its end
+        if (this.currentStep >= total) {
+          this.currentStep = 0;
+        }
+        // Turning a loop on while playing jumps into it at the next step
+        if (loop && (this.currentStep < loop.start || this.currentStep >= loop.end)) {
+          this.currentStep = loop.start;
+        }
 
-        if (onStep) {
-          const stepToReport = this.currentStep;
-          const timeUntilStep = (this.nextNoteTime - this.ctx.currentTime) * 1000;
-          setTimeout(() => {
-            if (this.state === "playing") {
-              onStep(stepToReport);
-            }
-          }, Math.max(0, timeUntilStep));
+        const step = this.currentStep;
+        scheduleStep(this.output, currentSong, step, this.nextNoteTime, secondsPerStep);
+        // Patterns are whole bars long, so arrangement steps line up with beats and bars
+        if (metronome && step % currentSong.stepsPerBeat === 0) {
+          playClick(this.output, this.nextNoteTime, step % stepsPerBar(currentSong) === 0);
         }
+        this.scheduledSteps.push({ step, time: this.nextNoteTime });
 
         this.nextNoteTime += secondsPerStep;
         this.currentStep++;
+      }
+    };
 
-        if (this.currentStep >= total) {
-          this.currentStep = 0;
-        }
+    // The playhead follows the audio clock, not timers, so it can't drift from what is heard
+    const followPlayhead = () => {
+      if (!this.ctx || this.state !== "playing") return;
+
+      const now = this.ctx.currentTime;
+      let reached: number | null = null;
+      while (this.scheduledSteps.length > 0 && this.scheduledSteps[0].time <= now) {
+        reached = this.scheduledSteps[0].step;
+        this.scheduledSteps.shift();
+      }
+      if (reached !== null && reached !== this.playheadStep) {
+        this.playheadStep = reached;
+        onStep?.(reached);
       }
+      this.animationFrame = requestAnimationFrame(followPlayhead);
     };
 
     this.schedulerInterval = setInterval(scheduler, this.SCHEDULE_INTERVAL);
     scheduler();
+    this.animationFrame = requestAnimationFrame(followPlayhead);
   }
 
-  private scheduleStep(
-    song: Song,
-    step: number,
-    time: number,
-    secondsPerStep: number
-  ): void {
-    for (const note of song.melody.notes) {
-      if (note.startStep === step) {
-        const duration = note.durationSteps * secondsPerStep;
-        this.playMelodyNote(note.note, time, duration);
-      }
-    }
-
-    for (const hit of song.drums.hits) {
-      if (hit.step === step) {
-        this.playDrum(hit.drumId, time);
-      }
-    }
+  // Playback applies the mix on every scheduler tick; this keeps previews in step while stopped
+  applyMix(song: Song): void {
+    this.mixSong = song;
+    this.mixer?.apply(song);
   }
 
-  private playMelodyNote(noteName: string, startTime: number, duration: number): void {
-    if (!this.ctx || !this.masterGain) return;
-
-    const midi = noteNameToMidi(noteName);
-    const freq = midiToFreq(midi);
-
-    const osc = this.ctx.createOscillator();
-    osc.type = "triangle";
-    osc.frequency.value = freq;
-
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0, startTime);
-    gain.gain.linearRampToValueAtTime(0.3, startTime + 0.005);
-    gain.gain.setValueAtTime(0.3, startTime + duration - 0.02);
-    gain.gain.linearRampToValueAtTime(0, startTime + duration);
-
-    osc.connect(gain);
-    gain.connect(this.masterGain);
-
-    osc.start(startTime);
-    osc.stop(startTime + duration + 0.01);
+  // Read on every scheduler tick, so changes apply while playing
+  setOptions(patch: Partial<TransportOptions>): void {
+    this.options = { ...this.options, ...patch };
   }
 
-  private playDrum(drumId: DrumId, time: number): void {
-    if (!this.ctx || !this.masterGain) return;
-
-    switch (drumId) {
-      case "kick":
-        this.playKick(time);
-        break;
-      case "snare":
-        this.playSnare(time);
-        break;
-      case "hihat":
-        this.playHihat(time);
-        break;
-    }
+  // Stops scheduling but remembers where the playhead is; resume() carries on from there
+  pause(): void {
+    if (this.state !== "playing") return;
+    this.halt();
+    this.state = "paused";
   }
 
-  private playKick(time: number): void {
-    if (!this.ctx || !this.masterGain) return;
-
-    const osc = this.ctx.createOscillator();
-    osc.type = "sine";
-    osc.frequency.setValueAtTime(150, time);
-    osc.frequency.exponentialRampToValueAtTime(40, time + 0.1);
-
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0.8, time);
-    gain.gain.exponentialRampToValueAtTime(0.01, time + 0.3);
-
-    osc.connect(gain);
-    gain.connect(this.masterGain);
-
-    osc.start(time);
-    osc.stop(time + 0.3);
+  resume(getSong: () => Song, onStep?: (step: number) => void): void {
+    if (this.state !== "paused") return;
+    this.state = "stopped";
+    this.play(getSong, onStep, this.playheadStep ?? 0);
   }
 
-  private playSnare(time: number): void {
-    if (!this.ctx || !this.masterGain || !this.noiseBuffer) return;
-
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = this.noiseBuffer;
-
-    const filter = this.ctx.createBiquadFilter();
-    filter.type = "bandpass";
-    filter.frequency.value = 3000;
-    filter.Q.value = 1;
-
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0.5, time);
-    gain.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-
-    const osc = this.ctx.createOscillator();
-    osc.type = "triangle";
-    osc.frequency.value = 180;
-
-    const oscGain = this.ctx.createGain();
-    oscGain.gain.setValueAtTime(0.4, time);
-    oscGain.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
-
-    noise.connect(filter);
-    filter.connect(gain);
-    gain.connect(this.masterGain);
-
-    osc.connect(oscGain);
-    oscGain.connect(this.masterGain);
-
-    noise.start(time);
-    noise.stop(time + 0.15);
-    osc.start(time);
-    osc.stop(time + 0.05);
+  stop(): void {
+    this.halt();
+    this.state = "stopped";
+    this.currentStep = 0;
+    this.playheadStep = null;
   }
 
-  private playHihat(time: number): void {
-    if (!this.ctx || !this.masterGain || !this.noiseBuffer) return;
-
-    const noise = this.ctx.createBufferSource();
-    noise.buffer = this.noiseBuffer;
-
-    const filter = this.ctx.createBiquadFilter();
-    filter.type = "highpass";
-    filter.frequency.value = 7000;
-
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0.2, time);
-    gain.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
-
-    noise.connect(filter);
-    filter.connect(gain);
-    gain.connect(this.masterGain);
-
-    noise.start(time);
-    noise.stop(time + 0.05);
+  // The step currently heard (or where playback paused), or null when stopped
+  getPlayheadStep(): number | null {
+    return this.playheadStep;
   }
 
-  stop(): void {
+  private halt(): void {
     if (this.schedulerInterval) {
       clearInterval(this.schedulerInterval);
       this.schedulerInterval = null;
     }
-    this.state = "stopped";
-    this.currentStep = 0;
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+    this.scheduledSteps = [];
   }
 
   getState(): TransportState {
     return this.state;
   }
 
-  async playNotePreview(noteName: string): Promise<void> {
+  async playNotePreview(
+    noteName: string,
+    instrument: InstrumentId,
+    velocity: number = DEFAULT_VELOCITY
+  ): Promise<void> {
     await this.init();
-    if (!this.ctx) return;
-    this.playMelodyNote(noteName, this.ctx.currentTime, 0.3);
+    if (!this.ctx || !this.output) return;
+    const out = toBus(this.output, "melody");
+    playMelodyNote(out, noteName, instrument, this.ctx.currentTime, 0.3, velocity);
+  }
+
+  async playDrumPreview(drumId: DrumId, velocity: number = DEFAULT_VELOCITY): Promise<void> {
+    await this.init();
+    if (!this.ctx || !this.output) return;
+    playDrum(toBus(this.output, "drums"), drumId, this.ctx.currentTime, velocity);
   }
 
-  async playDrumPreview(drumId: DrumId): Promise<void> {
+  async loadDrumSample(drumId: DrumId, data: ArrayBuffer): Promise<void> {
     await this.init();
     if (!this.ctx) return;
-    this.playDrum(drumId, this.ctx.currentTime);
+    await loadDrumSample(this.ctx, drumId, data);
+  }
+
+  clearDrumSample(drumId: DrumId): void {
+    clearDrumSample(drumId);
   }
 }
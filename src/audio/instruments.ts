@@ -0,0 +1,127 @@
+import type { InstrumentId } from "@/core/types";
+import { DEFAULT_INSTRUMENT } from "@/core/instruments";
+import { DEFAULT_VELOCITY } from "@/core/utils";
+
+export type OscillatorLayer = {
+  type: OscillatorType;
+  gain: number;
+  detune?: number; // cents
+  octave?: number;
+};
+
+export type Envelope = {
+  attack: number;
+  decay: number;
+  sustain: number; // level relative to peak (0-1)
+  release: number;
+};
+
+export type InstrumentVoice = {
+  gain: number;
+  oscillators: OscillatorLayer[];
+  filter?: { type: BiquadFilterType; frequency: number; Q?: number };
+  envelope: Envelope;
+};
+
+const voices = new Map<InstrumentId, InstrumentVoice>();
+
+export function registerInstrumentVoice(id: InstrumentId, voice: InstrumentVoice): void {
+  voices.set(id, voice);
+}
+
+export function getInstrumentVoice(id: InstrumentId): InstrumentVoice {
+  const voice = voices.get(id) ?? voices.get(DEFAULT_INSTRUMENT);
+  if (!voice) {
+    throw new Error(`No voice for instrument: ${id}`);
+  }
+  return voice;
+}
+
+function midiToFreq(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+// A default-velocity note plays at the voice's own level; harder notes are louder and brighter
+export function velocityGain(velocity: number): number {
+  return velocity / DEFAULT_VELOCITY;
+}
+
+export function velocityBrightness(velocity: number): number {
+  return Math.pow(2, (velocity - DEFAULT_VELOCITY) * 2);
+}
+
+// Builds the oscillator -> filter -> envelope chain for one note and schedules it.
+export function playVoice(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  voice: InstrumentVoice,
+  midi: number,
+  startTime: number,
+  duration: number,
+  velocity: number = DEFAULT_VELOCITY
+): void {
+  const { attack, decay, sustain, release } = voice.envelope;
+  const freq = midiToFreq(midi);
+  const noteOff = startTime + Math.max(duration, attack);
+  const peak = voice.gain * velocityGain(velocity);
+
+  const envelope = ctx.createGain();
+  envelope.gain.setValueAtTime(0, startTime);
+  envelope.gain.linearRampToValueAtTime(peak, startTime + attack);
+  envelope.gain.setTargetAtTime(peak * sustain, startTime + attack, decay / 3);
+  envelope.gain.setTargetAtTime(0, noteOff, release / 3);
+  envelope.connect(destination);
+
+  let input: AudioNode = envelope;
+  if (voice.filter) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = voice.filter.type;
+    filter.frequency.value = voice.filter.frequency * velocityBrightness(velocity);
+    filter.Q.value = voice.filter.Q ?? 1;
+    filter.connect(envelope);
+    input = filter;
+  }
+
+  for (const layer of voice.oscillators) {
+    const osc = ctx.createOscillator();
+    osc.type = layer.type;
+    osc.frequency.value = freq * Math.pow(2, layer.octave ?? 0);
+    osc.detune.value = layer.detune ?? 0;
+
+    const layerGain = ctx.createGain();
+    layerGain.gain.value = layer.gain;
+
+    osc.connect(layerGain);
+    layerGain.connect(input);
+
+    osc.start(startTime);
+    osc.stop(noteOff + release + 0.05);
+  }
+}
+
+registerInstrumentVoice("pianica", {
+  gain: 0.22,
+  oscillators: [
+    { type: "square", gain: 0.5 },
+    { type: "sawtooth", gain: 0.35, detune: 6 },
+  ],
+  filter: { type: "lowpass", frequency: 2200, Q: 0.8 },
+  envelope: { attack: 0.03, decay: 0.1, sustain: 0.85, release: 0.06 },
+});
+
+registerInstrumentVoice("piano", {
+  gain: 0.35,
+  oscillators: [
+    { type: "triangle", gain: 0.7 },
+    { type: "sine", gain: 0.25, octave: 1 },
+    { type: "sawtooth", gain: 0.05, detune: -4 },
+  ],
+  filter: { type: "lowpass", frequency: 3200 },
+  envelope: { attack: 0.005, decay: 0.6, sustain: 0.25, release: 0.3 },
+});
+
+registerInstrumentVoice("sine", {
+  gain: 0.3,
+  oscillators: [{ type: "sine", gain: 1 }],
+  envelope: { attack: 0.005, decay: 0.05, sustain: 1, release: 0.02 },
+});
@@ -0,0 +1,18 @@
+import type { SynthOutput } from "./synth";
+
+// Short sine blip; the first beat of a bar is higher and louder
+export function playClick({ ctx, destination }: SynthOutput, time: number, accent: boolean): void {
+  const osc = ctx.createOscillator();
+  osc.type = "sine";
+  osc.frequency.setValueAtTime(accent ? 1760 : 1320, time);
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(accent ? 0.5 : 0.3, time);
+  gain.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
+
+  osc.connect(gain);
+  gain.connect(destination);
+
+  osc.start(time);
+  osc.stop(time + 0.05);
+}
@@ -0,0 +1,135 @@
+import type { BusId, Song } from "@/core/types";
+import { BUS_IDS } from "@/core/types";
+import { songMix } from "@/core/mix";
+
+export const MASTER_GAIN = 0.5;
+
+const MAX_EFFECTS_TAIL = 8; // seconds
+
+type BusNodes = {
+  input: GainNode;
+  panner: StereoPannerNode;
+  reverbSend: GainNode;
+  delaySend: GainNode;
+};
+
+// Decaying stereo noise; convolving with it sounds like a room of that decay time
+export function createImpulseResponse(ctx: BaseAudioContext, decay: number): AudioBuffer {
+  const length = Math.ceil(decay * ctx.sampleRate);
+  const buffer = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      // Falls by 60 dB over the decay time
+      data[i] = (Math.random() * 2 - 1) * Math.exp((-6.9 * i) / length);
+    }
+  }
+  return buffer;
+}
+
+// How long reverb and echoes keep sounding after the last note
+export function effectsTail(song: Song): number {
+  const mix = songMix(song);
+  const buses = BUS_IDS.map((id) => mix[id]);
+  let tail = 0;
+  if (buses.some((bus) => bus.reverb > 0)) {
+    tail = mix.reverbDecay;
+  }
+  if (buses.some((bus) => bus.delay > 0)) {
+    const delaySeconds = (mix.delayBeats * 60) / song.bpm;
+    // Echoes until they have died down to 1%
+    const echoes = mix.delayFeedback > 0 ? Math.log(0.01) / Math.log(mix.delayFeedback) : 1;
+    tail = Math.max(tail, delaySeconds * (echoes + 1));
+  }
+  return Math.min(tail, MAX_EFFECTS_TAIL);
+}
+
+// bus -> pan -> master, with post-fader sends to a shared reverb and delay;
+// master -> low-pass -> volume -> limiter -> destination
+export class Mixer {
+  readonly buses: Record<BusId, AudioNode>;
+  // Dry input to the master section, for sounds that skip the buses
+  readonly master: AudioNode;
+
+  private readonly ctx: BaseAudioContext;
+  private readonly busNodes: Record<BusId, BusNodes>;
+  private readonly reverb: ConvolverNode;
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+  private readonly filter: BiquadFilterNode;
+  private readonly volume: GainNode;
+  private reverbDecay: number | null = null;
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode) {
+    this.ctx = ctx;
+
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = -3;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.1;
+    limiter.connect(destination);
+
+    this.volume = ctx.createGain();
+    this.volume.gain.value = MASTER_GAIN;
+    this.volume.connect(limiter);
+
+    this.filter = ctx.createBiquadFilter();
+    this.filter.type = "lowpass";
+    this.filter.connect(this.volume);
+
+    const master = ctx.createGain();
+    master.connect(this.filter);
+    this.master = master;
+
+    this.reverb = ctx.createConvolver();
+    this.reverb.connect(master);
+
+    this.delay = ctx.createDelay(10);
+    this.feedback = ctx.createGain();
+    this.delay.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.delay.connect(master);
+
+    const busNodes = {} as Record<BusId, BusNodes>;
+    for (const id of BUS_IDS) {
+      const input = ctx.createGain();
+      const panner = ctx.createStereoPanner();
+      const reverbSend = ctx.createGain();
+      const delaySend = ctx.createGain();
+      input.connect(panner);
+      panner.connect(master);
+      panner.connect(reverbSend);
+      panner.connect(delaySend);
+      reverbSend.connect(this.reverb);
+      delaySend.connect(this.delay);
+      busNodes[id] = { input, panner, reverbSend, delaySend };
+    }
+    this.busNodes = busNodes;
+    this.buses = { melody: busNodes.melody.input, drums: busNodes.drums.input };
+  }
+
+  // Cheap when nothing changed, so it can run on every scheduler tick
+  apply(song: Song): void {
+    const mix = songMix(song);
+    for (const id of BUS_IDS) {
+      const bus = mix[id];
+      const nodes = this.busNodes[id];
+      nodes.input.gain.value = bus.muted ? 0 : bus.volume;
+      nodes.panner.pan.value = bus.pan;
+      nodes.reverbSend.gain.value = bus.reverb;
+      nodes.delaySend.gain.value = bus.delay;
+    }
+
+    // A new impulse response is only built when the decay changes
+    if (mix.reverbDecay !== this.reverbDecay) {
+      this.reverb.buffer = createImpulseResponse(this.ctx, mix.reverbDecay);
+      this.reverbDecay = mix.reverbDecay;
+    }
+    this.delay.delayTime.value = (mix.delayBeats * 60) / song.bpm;
+    this.feedback.gain.value = mix.delayFeedback;
+    this.filter.frequency.value = mix.filterCutoff;
+    this.volume.gain.value = MASTER_GAIN * (song.volume ?? 1);
+  }
+}
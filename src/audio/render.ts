@@ -0,0 +1,46 @@
+import type { Song } from "@/core/types";
+import { arrangementSteps } from "@/core/arrangement";
+import { effectsTail, Mixer } from "./mixer";
+import { createNoiseBuffer, scheduleStep } from "./synth";
+import { encodeWav } from "./wav";
+
+const RENDER_SAMPLE_RATE = 44100;
+const RELEASE_TAIL = 1.5; // seconds kept after the last step so releases ring out
+
+export async function renderSong(
+  song: Song,
+  loops: number = 1,
+  sampleRate: number = RENDER_SAMPLE_RATE
+): Promise<AudioBuffer> {
+  const secondsPerStep = 60 / song.bpm / song.stepsPerBeat;
+  const total = arrangementSteps(song);
+  const duration = total * loops * secondsPerStep + RELEASE_TAIL + effectsTail(song);
+
+  const ctx = new OfflineAudioContext(2, Math.ceil(duration * sampleRate), sampleRate);
+  const mixer = new Mixer(ctx, ctx.destination);
+  mixer.apply(song);
+
+  const out = {
+    ctx,
+    destination: mixer.master,
+    buses: mixer.buses,
+    noiseBuffer: createNoiseBuffer(ctx),
+  };
+
+  for (let loop = 0; loop < loops; loop++) {
+    for (let step = 0; step < total; step++) {
+      const time = (loop * total + step) * secondsPerStep;
+      scheduleStep(out, song, step, time, secondsPerStep);
+    }
+  }
+
+  return ctx.startRendering();
+}
+
+export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i)
+  );
+  const wav = encodeWav({ sampleRate: buffer.sampleRate, channels });
+  return new Blob([wav], { type: "audio/wav" });
+}
@@ -0,0 +1,98 @@
+import type { BusId, InstrumentId, Song } from "@/core/types";
+import { arrangementPosition } from "@/core/arrangement";
+import { grooveTimingOffset, grooveVelocity } from "@/core/groove";
+import {
+  audibleTracks,
+  DEFAULT_VELOCITY,
+  findPattern,
+  noteNameToMidi,
+  patternNotes,
+  velocityOf,
+} from "@/core/utils";
+import { playDrum } from "./drums";
+import { getInstrumentVoice, playVoice } from "./instruments";
+
+// Where scheduled voices are built and routed; works for live and offline contexts alike.
+// Voices connect to `destination`; song playback points it at the mixer bus of each part.
+export type SynthOutput = {
+  ctx: BaseAudioContext;
+  destination: AudioNode;
+  buses: Record<BusId, AudioNode>;
+  noiseBuffer: AudioBuffer;
+};
+
+export function createNoiseBuffer(ctx: BaseAudioContext): AudioBuffer {
+  const bufferSize = ctx.sampleRate * 0.5;
+  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < bufferSize; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  return buffer;
+}
+
+export function toBus(out: SynthOutput, busId: BusId): SynthOutput {
+  return { ...out, destination: out.buses[busId] };
+}
+
+function withGain(out: SynthOutput, value: number): SynthOutput {
+  const gain = out.ctx.createGain();
+  gain.gain.value = value;
+  gain.connect(out.destination);
+  return { ...out, destination: gain };
+}
+
+// `step` counts along the whole arrangement; it is resolved to a pattern and a step within it
+export function scheduleStep(
+  out: SynthOutput,
+  song: Song,
+  step: number,
+  time: number,
+  secondsPerStep: number
+): void {
+  const position = arrangementPosition(song, step);
+  const pattern = findPattern(song, position.patternId);
+  if (!pattern) return;
+
+  // The groove shifts and accents what starts on this step; notes also end on a grooved step
+  const start = time + grooveTimingOffset(song, step) * secondsPerStep;
+  const melodyOut = toBus(out, "melody");
+
+  for (const track of audibleTracks(song)) {
+    const starting = patternNotes(pattern, track.id).filter(
+      (note) => note.startStep === position.step
+    );
+    if (starting.length === 0) continue;
+
+    const trackOut = track.volume === 1 ? melodyOut : withGain(melodyOut, track.volume);
+    for (const note of starting) {
+      const endStep = step + note.durationSteps;
+      const end = time + (note.durationSteps + grooveTimingOffset(song, endStep)) * secondsPerStep;
+      const velocity = grooveVelocity(song, step, velocityOf(note));
+      playMelodyNote(trackOut, note.note, track.instrument, start, end - start, velocity);
+    }
+  }
+
+  if (!song.constraints.drumsEnabled) return;
+
+  const drumOut = toBus(out, "drums");
+
+  for (const hit of pattern.hits) {
+    if (hit.step === position.step) {
+      playDrum(drumOut, hit.drumId, start, grooveVelocity(song, step, velocityOf(hit)));
+    }
+  }
+}
+
+export function playMelodyNote(
+  out: SynthOutput,
+  noteName: string,
+  instrument: InstrumentId,
+  startTime: number,
+  duration: number,
+  velocity: number = DEFAULT_VELOCITY
+): void {
+  const voice = getInstrumentVoice(instrument);
+  const midi = noteNameToMidi(noteName);
+  playVoice(out.ctx, out.destination, voice, midi, startTime, duration, velocity);
+}
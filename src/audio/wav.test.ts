@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav } from "./wav";
+
+function ascii(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+}
+
+function samples(view: DataView): number[] {
+  return Array.from({ length: (view.byteLength - 44) / 2 }, (_, i) =>
+    view.getInt16(44 + i * 2, true)
+  );
+}
+
+describe("encodeWav", () => {
+  it("writes a canonical 16-bit PCM RIFF header", () => {
+    const view = new DataView(
+      encodeWav({ sampleRate: 44100, channels: [new Float32Array(3), new Float32Array(3)] })
+    );
+    const dataSize = 3 * 2 * 2;
+    expect(view.byteLength).toBe(44 + dataSize);
+    expect(ascii(view, 0, 4)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(36 + dataSize);
+    expect(ascii(view, 8, 4)).toBe("WAVE");
+    expect(ascii(view, 12, 4)).toBe("fmt ");
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2); // channels
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 2 * 2); // bytes per second
+    expect(view.getUint16(32, true)).toBe(4); // bytes per frame
+    expect(view.getUint16(34, true)).toBe(16); // bits per sample
+    expect(ascii(view, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(dataSize);
+  });
+
+  it("interleaves channels frame by frame", () => {
+    const left = Float32Array.from([0.5, 0, -0.5]);
+    const right = Float32Array.from([-0.25, 0.25, 1]);
+    const view = new DataView(encodeWav({ sampleRate: 8000, channels: [left, right] }));
+    expect(samples(view)).toEqual([16384, -8192, 0, 8192, -16384, 32767]);
+  });
+
+  it("scales to the full 16-bit range and clamps samples beyond it", () => {
+    const mono = Float32Array.from([1, -1, 1.5, -2, Infinity, -Infinity]);
+    const view = new DataView(encodeWav({ sampleRate: 8000, channels: [mono] }));
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(samples(view)).toEqual([32767, -32768, 32767, -32768, 32767, -32768]);
+  });
+
+  it("writes just the header when there is no audio", () => {
+    const view = new DataView(encodeWav({ sampleRate: 48000, channels: [] }));
+    expect(view.byteLength).toBe(44);
+    expect(view.getUint32(40, true)).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+// Planar float samples (-1..1) per channel, e.g. from AudioBuffer.getChannelData
+export type PcmAudio = {
+  sampleRate: number;
+  channels: Float32Array[];
+};
+
+const BYTES_PER_SAMPLE = 2;
+const WAV_HEADER_SIZE = 44;
+
+// Encodes interleaved 16-bit PCM in a canonical RIFF/WAVE container
+export function encodeWav({ sampleRate, channels }: PcmAudio): ArrayBuffer {
+  const channelCount = channels.length;
+  const frameCount = channelCount > 0 ? channels[0].length : 0;
+  const dataSize = frameCount * channelCount * BYTES_PER_SAMPLE;
+  const buffer = new ArrayBuffer(WAV_HEADER_SIZE + dataSize);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, "WAVE");
+
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * BYTES_PER_SAMPLE, true);
+  view.setUint16(32, channelCount * BYTES_PER_SAMPLE, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = WAV_HEADER_SIZE;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let ch = 0; ch < channelCount; ch++) {
+      view.setInt16(offset, floatToInt16(channels[ch][frame]), true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return buffer;
+}
+
+function floatToInt16(sample: number): number {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return clamped < 0 ? Math.round(clamped * 0x8000) : Math.round(clamped * 0x7fff);
+}
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
@@ -0,0 +1,90 @@
+import type { DrumHit, MelodyNote, Song } from "./types";
+import { findPattern, patternNotes, totalSteps } from "./utils";
+
+// Where a step of the arranged song falls: which entry, which pass of it, and the pattern step
+export type ArrangementPosition = {
+  entryIndex: number;
+  repeat: number;
+  patternId: string;
+  step: number;
+};
+
+// Each pass of a pattern through the timeline, with the arranged step it starts on
+type Block = { entryIndex: number; repeat: number; patternId: string; startStep: number };
+
+function arrangementBlocks(song: Song): Block[] {
+  const patternSteps = totalSteps(song);
+  const blocks: Block[] = [];
+  song.arrangement.forEach((entry, entryIndex) => {
+    for (let repeat = 0; repeat < entry.repeats; repeat++) {
+      blocks.push({
+        entryIndex,
+        repeat,
+        patternId: entry.patternId,
+        startStep: blocks.length * patternSteps,
+      });
+    }
+  });
+  return blocks;
+}
+
+export function arrangementSteps(song: Song): number {
+  const passes = song.arrangement.reduce((sum, entry) => sum + entry.repeats, 0);
+  return passes * totalSteps(song);
+}
+
+// Steps past the end wrap around, so a running transport survives a shorter arrangement
+export function arrangementPosition(song: Song, step: number): ArrangementPosition {
+  const patternSteps = totalSteps(song);
+  const blocks = arrangementBlocks(song);
+  const wrapped = step % (blocks.length * patternSteps);
+  const block = blocks[Math.floor(wrapped / patternSteps)];
+  return {
+    entryIndex: block.entryIndex,
+    repeat: block.repeat,
+    patternId: block.patternId,
+    step: wrapped % patternSteps,
+  };
+}
+
+// One track's notes laid out along the whole arrangement, for export
+export function arrangedNotes(song: Song, trackId: string): MelodyNote[] {
+  return arrangementBlocks(song).flatMap((block) => {
+    const pattern = findPattern(song, block.patternId);
+    if (!pattern) return [];
+    return patternNotes(pattern, trackId).map((n) => ({
+      ...n,
+      startStep: n.startStep + block.startStep,
+    }));
+  });
+}
+
+export function arrangedHits(song: Song): DrumHit[] {
+  return arrangementBlocks(song).flatMap((block) => {
+    const pattern = findPattern(song, block.patternId);
+    if (!pattern) return [];
+    return pattern.hits.map((h) => ({ ...h, step: h.step + block.startStep }));
+  });
+}
+
+// First unused letter name (A, B, C...) for a new pattern
+export function nextPatternName(song: Song): string {
+  const names = new Set(song.patterns.map((p) => p.name));
+  for (let i = 0; i < 26; i++) {
+    const name = String.fromCharCode(65 + i);
+    if (!names.has(name)) return name;
+  }
+  return `Pattern ${song.patterns.length + 1}`;
+}
+
+// Arranged step where a pass of the pattern begins: the pass containing `near` when there is
+// one, else the first pass; null when the arrangement doesn't use the pattern
+export function patternStartStep(song: Song, patternId: string, near?: number): number | null {
+  const patternSteps = totalSteps(song);
+  const passes = arrangementBlocks(song).filter((block) => block.patternId === patternId);
+  const containing = passes.find(
+    (block) =>
+      near !== undefined && near >= block.startStep && near < block.startStep + patternSteps
+  );
+  return (containing ?? passes[0])?.startStep ?? null;
+}
@@ -1,19 +1,38 @@
-import type { Song } from "./types";
+import type { MelodyTrack, Pattern, Song } from "./types";
+import { DEFAULT_INSTRUMENT } from "./instruments";
+
+export const DEFAULT_TRACK: MelodyTrack = {
+  id: "melody",
+  name: "Melody",
+  instrument: DEFAULT_INSTRUMENT,
+  minNote: "C4",
+  maxNote: "C5",
+  muted: false,
+  solo: false,
+  volume: 1,
+};
+
+export const DEFAULT_PATTERN: Pattern = {
+  id: "a",
+  name: "A",
+  notes: {},
+  hits: [],
+};
 
 export const DEFAULT_SONG: Song = {
-  version: 1,
+  version: 4,
   bpm: 100,
   stepsPerBeat: 4,
+  beatsPerBar: 4,
+  beatUnit: 4,
   bars: 4,
-  instrument: "pianica",
   constraints: {
-    minNote: "C4",
-    maxNote: "C5",
     allowAccidentals: false,
     tempoLocked: false,
     barsLocked: false,
     drumsEnabled: true,
   },
-  melody: { notes: [] },
-  drums: { hits: [] },
+  melody: { tracks: [DEFAULT_TRACK] },
+  patterns: [DEFAULT_PATTERN],
+  arrangement: [{ patternId: DEFAULT_PATTERN.id, repeats: 1 }],
 };
@@ -0,0 +1,108 @@
+import type { DrumHit, DrumId, Song } from "./types";
+
+export type DrumInfo = {
+  label: string;
+  color: string;
+  midiKey: number; // General MIDI percussion key written on export
+  legacyName: string; // cell name used by the old grid format
+};
+
+const registry = new Map<DrumId, DrumInfo>();
+
+export function registerDrum(id: DrumId, info: DrumInfo): void {
+  registry.set(id, info);
+}
+
+// Rows shown by songs that never picked their own
+export const DEFAULT_DRUM_ROWS: DrumId[] = ["hihat", "snare", "kick"];
+
+export function getDrum(id: DrumId): DrumInfo {
+  const info = registry.get(id);
+  if (!info) {
+    throw new Error(`Unknown drum: ${id}`);
+  }
+  return info;
+}
+
+export function listDrums(): ({ id: DrumId } & DrumInfo)[] {
+  return Array.from(registry, ([id, info]) => ({ id, ...info }));
+}
+
+export function drumForLegacyName(name: string): DrumId | undefined {
+  return listDrums().find((drum) => drum.legacyName === name)?.id;
+}
+
+// Puts drum ids in row order and drops duplicates
+export function sortDrumRows(rows: DrumId[]): DrumId[] {
+  return listDrums()
+    .map((drum) => drum.id)
+    .filter((id) => rows.includes(id));
+}
+
+export function visibleDrumRows(song: Song): DrumId[] {
+  return song.drumRows ?? DEFAULT_DRUM_ROWS;
+}
+
+// Imported hits may use drums the default rows don't show; add those rows
+export function fitDrumRowsToHits(song: Song, hits: DrumHit[]): DrumId[] | undefined {
+  const rows = visibleDrumRows(song);
+  const missing = hits.map((h) => h.drumId).filter((id) => !rows.includes(id));
+  return missing.length > 0 ? sortDrumRows([...rows, ...missing]) : song.drumRows;
+}
+
+// Registration order is the top-to-bottom row order
+registerDrum("cowbell", {
+  label: "cowbell",
+  color: "hsl(30, 60%, 50%)",
+  midiKey: 56,
+  legacyName: "COWBELL",
+});
+
+registerDrum("hihat", {
+  label: "hihat",
+  color: "hsl(50, 70%, 65%)",
+  midiKey: 42,
+  legacyName: "HIHAT",
+});
+
+registerDrum("openhat", {
+  label: "open hat",
+  color: "hsl(70, 60%, 60%)",
+  midiKey: 46,
+  legacyName: "OPENHAT",
+});
+
+registerDrum("clap", {
+  label: "clap",
+  color: "hsl(330, 60%, 65%)",
+  midiKey: 39,
+  legacyName: "CLAP",
+});
+
+registerDrum("rim", {
+  label: "rim",
+  color: "hsl(180, 40%, 55%)",
+  midiKey: 37,
+  legacyName: "RIM",
+});
+
+registerDrum("snare", {
+  label: "snare",
+  color: "hsl(40, 60%, 55%)",
+  midiKey: 38,
+  legacyName: "SNARE",
+});
+
+registerDrum("tom", {
+  label: "tom",
+  color: "hsl(15, 50%, 50%)",
+  midiKey: 45,
+  legacyName: "TOM",
+});
+
+registerDrum("kick", {
+  label: "kick",
+  color: "hsl(0, 0%, 35%)",
+  midiKey: 36,
+  legacyName: "KICK",
+});
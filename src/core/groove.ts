@@ -0,0 +1,61 @@
+import type { GrooveId, Song } from "./types";
+import { clamp, MIN_VELOCITY } from "./utils";
+
+// Offsets cycle through the steps of each beat: timing in fractions of a step (later is
+// positive), velocity added to the note's own
+export type GrooveTemplate = {
+  label: string;
+  timing: number[];
+  velocity: number[];
+};
+
+const registry = new Map<GrooveId, GrooveTemplate>();
+
+export function registerGroove(id: GrooveId, template: GrooveTemplate): void {
+  registry.set(id, template);
+}
+
+export function getGroove(id: GrooveId): GrooveTemplate {
+  const template = registry.get(id);
+  if (!template) {
+    throw new Error(`Unknown groove: ${id}`);
+  }
+  return template;
+}
+
+export function listGrooves(): ({ id: GrooveId } & GrooveTemplate)[] {
+  return Array.from(registry, ([id, template]) => ({ id, ...template }));
+}
+
+function offsetIndex(song: Song, step: number, length: number): number {
+  return (step % song.stepsPerBeat) % length;
+}
+
+// How far (in steps) the groove moves a step off the grid
+export function grooveTimingOffset(song: Song, step: number): number {
+  if (!song.groove) return 0;
+  const { timing } = getGroove(song.groove.template);
+  return timing[offsetIndex(song, step, timing.length)] * song.groove.amount;
+}
+
+export function grooveVelocity(song: Song, step: number, velocity: number): number {
+  if (!song.groove) return velocity;
+  const offsets = getGroove(song.groove.template).velocity;
+  const offset = offsets[offsetIndex(song, step, offsets.length)] * song.groove.amount;
+  return clamp(velocity + offset, MIN_VELOCITY, 1);
+}
+
+registerGroove("shuffle", {
+  label: "Shuffle",
+  timing: [0, 1 / 3], // triplet feel: the off-step lands two thirds of the way through the pair
+  velocity: [0.05, -0.15],
+});
+
+// MPC swing percentages: where the second step of each pair falls, as a share of the pair
+for (const percent of [54, 58, 62, 66, 71, 75]) {
+  registerGroove(`mpc-${percent}` as GrooveId, {
+    label: `MPC ${percent}%`,
+    timing: [0, (percent * 2) / 100 - 1],
+    velocity: [0, -0.05],
+  });
+}
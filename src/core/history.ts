@@ -0,0 +1,81 @@
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  // Snapshot taken when a gesture began; edits until endGesture collapse into one undo step
+  gestureStart: T | null;
+};
+
+const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [], gestureStart: null };
+}
+
+export function commit<T>(history: History<T>, next: T): History<T> {
+  if (next === history.present) {
+    return history;
+  }
+
+  if (history.gestureStart !== null) {
+    return { ...history, present: next };
+  }
+
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    gestureStart: null,
+  };
+}
+
+export function beginGesture<T>(history: History<T>): History<T> {
+  if (history.gestureStart !== null) {
+    return history;
+  }
+  return { ...history, gestureStart: history.present };
+}
+
+export function endGesture<T>(history: History<T>): History<T> {
+  const { gestureStart } = history;
+  if (gestureStart === null) {
+    return history;
+  }
+  if (gestureStart === history.present) {
+    return { ...history, gestureStart: null };
+  }
+  return {
+    past: [...history.past, gestureStart].slice(-HISTORY_LIMIT),
+    present: history.present,
+    future: [],
+    gestureStart: null,
+  };
+}
+
+export function undo<T>(history: History<T>): History<T> {
+  const settled = endGesture(history);
+  if (settled.past.length === 0) {
+    return settled;
+  }
+  const previous = settled.past[settled.past.length - 1];
+  return {
+    past: settled.past.slice(0, -1),
+    present: previous,
+    future: [settled.present, ...settled.future],
+    gestureStart: null,
+  };
+}
+
+export function redo<T>(history: History<T>): History<T> {
+  const settled = endGesture(history);
+  if (settled.future.length === 0) {
+    return settled;
+  }
+  const [next, ...rest] = settled.future;
+  return {
+    past: [...settled.past, settled.present],
+    present: next,
+    future: rest,
+    gestureStart: null,
+  };
+}
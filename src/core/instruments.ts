@@ -0,0 +1,41 @@
+import type { InstrumentId } from "./types";
+
+export type InstrumentInfo = {
+  label: string;
+  program: number; // General MIDI program (0-based) written on export
+};
+
+const registry = new Map<InstrumentId, InstrumentInfo>();
+
+// New tracks use it, and imports fall back to it for instruments that aren't registered
+export const DEFAULT_INSTRUMENT: InstrumentId = "pianica";
+
+export function registerInstrument(id: InstrumentId, info: InstrumentInfo): void {
+  registry.set(id, info);
+}
+
+export function unregisterInstrument(id: InstrumentId): void {
+  registry.delete(id);
+}
+
+export function isInstrument(id: string): boolean {
+  return registry.has(id);
+}
+
+export function getInstrument(id: InstrumentId): InstrumentInfo {
+  const info = registry.get(id) ?? registry.get(DEFAULT_INSTRUMENT);
+  if (!info) {
+    throw new Error(`Unknown instrument: ${id}`);
+  }
+  return info;
+}
+
+export function listInstruments(): ({ id: InstrumentId } & InstrumentInfo)[] {
+  return Array.from(registry, ([id, info]) => ({ id, ...info }));
+}
+
+// Registration order is the order of the instrument menu. Each sound is registered
+// separately in audio/instruments.ts.
+registerInstrument("pianica", { label: "Pianica", program: 22 }); // Harmonica
+registerInstrument("piano", { label: "Piano", program: 0 }); // Acoustic Grand Piano
+registerInstrument("sine", { label: "Sine", program: 79 }); // Ocarina
@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import type { Song } from "./types";
+import type { LegacyCell, LegacyMusicData } from "./legacy";
+import {
+  exportLegacyMusicData,
+  fromLegacyMusicData,
+  importLegacyMusicData,
+  parseLegacyMusicData,
+  toLegacyMusicData,
+} from "./legacy";
+import { DEFAULT_SONG } from "./defaults";
+import { MAX_BARS, MAX_BPM, MIN_BPM } from "./utils";
+
+const BEATS = 16;
+
+function row(cells: Record<number, LegacyCell>): LegacyCell[] {
+  return Array.from({ length: BEATS }, (_, col) => cells[col] ?? null);
+}
+
+function start(note: string, length?: number): LegacyCell {
+  return length === undefined ? { note, start: true } : { note, start: true, length };
+}
+
+function sustained(note: string): LegacyCell {
+  return { note, sustained: true };
+}
+
+function data(grid: LegacyCell[][], extra: Partial<LegacyMusicData> = {}): LegacyMusicData {
+  return { grid, beats: BEATS, ...extra };
+}
+
+describe("parseLegacyMusicData", () => {
+  it("accepts objects with a grid and a beat count", () => {
+    expect(parseLegacyMusicData(JSON.stringify(data([])))).toEqual(data([]));
+  });
+
+  it.each([
+    ["text that isn't JSON", "{"],
+    ["a song file", JSON.stringify(DEFAULT_SONG)],
+    ["a grid without beats", JSON.stringify({ grid: [] })],
+    ["null", "null"],
+  ])("turns away %s", (_name, text) => {
+    expect(parseLegacyMusicData(text)).toBeNull();
+  });
+});
+
+describe("importLegacyMusicData", () => {
+  it("reads notes from start cells and their sustained runs", () => {
+    const grid = [
+      row({ 0: start("E4"), 1: sustained("E4"), 2: sustained("E4") }),
+      row({ 4: start("C4", 2), 5: sustained("C4"), 8: start("C4") }),
+    ];
+    const { song, issues } = importLegacyMusicData(data(grid, { bpm: 120 }));
+    expect(issues).toEqual([]);
+    expect(song.bpm).toBe(120);
+    expect(song.bars).toBe(1);
+    expect(song.patterns[0].notes.melody).toMatchObject([
+      { startStep: 0, durationSteps: 3, note: "E4" },
+      { startStep: 4, durationSteps: 2, note: "C4" },
+      { startStep: 8, durationSteps: 1, note: "C4" },
+    ]);
+  });
+
+  it("reads drum cells as hits", () => {
+    const grid = [row({ 0: { note: "KICK" }, 8: { note: "KICK" } }), row({ 4: { note: "SNARE" } })];
+    const { song, issues } = importLegacyMusicData(data(grid));
+    expect(issues).toEqual([]);
+    expect(song.patterns[0].hits).toMatchObject([
+      { step: 0, drumId: "kick" },
+      { step: 8, drumId: "kick" },
+      { step: 4, drumId: "snare" },
+    ]);
+  });
+
+  it("widens the range and allows accidentals to fit the notes", () => {
+    const grid = [row({ 0: start("A5") }), row({ 2: start("F#3") })];
+    const { song } = importLegacyMusicData(data(grid));
+    expect(song.melody.tracks[0]).toMatchObject({ minNote: "F#3", maxNote: "A5" });
+    expect(song.constraints.allowAccidentals).toBe(true);
+  });
+
+  it("reports every cell it can't place", () => {
+    const grid = [
+      row({ 0: start("H4"), 1: start("C9"), 2: { note: "D4" } }),
+      row({ 0: start("E4", 2), 1: sustained("E4"), 2: sustained("E4") }),
+      row({ 5: sustained("G4"), 6: start("A4"), 7: sustained("B4") }),
+    ];
+    const { song, issues } = importLegacyMusicData(data(grid));
+    expect(issues).toEqual([
+      { kind: "unknown-note", row: 0, col: 0, note: "H4" },
+      { kind: "out-of-range", row: 0, col: 1, note: "C9" },
+      { kind: "unmarked-cell", row: 0, col: 2, note: "D4" },
+      { kind: "orphan-sustain", row: 1, col: 2, note: "E4" },
+      { kind: "sustain-without-start", row: 2, col: 5, note: "G4" },
+      { kind: "sustain-without-start", row: 2, col: 7, note: "B4" },
+    ]);
+    expect(song.patterns[0].notes.melody).toMatchObject([
+      { startStep: 0, durationSteps: 2, note: "E4" },
+      { startStep: 6, durationSteps: 1, note: "A4" },
+    ]);
+  });
+
+  it("ignores cells past the song's length", () => {
+    const grid = [[...row({}), start("C4")]];
+    const { song, issues } = importLegacyMusicData(data(grid));
+    expect(issues).toEqual([]);
+    expect(song.patterns[0].notes.melody).toEqual([]);
+  });
+
+  it("cuts a grid longer than any song to the longest allowed and reports what it cut", () => {
+    const last = MAX_BARS * BEATS - 1;
+    const long = Array.from({ length: last + 3 }, (): LegacyCell => null);
+    long[last] = start("C4", 2);
+    long[last + 1] = sustained("C4");
+    long[last + 2] = start("E4");
+    const { song, issues } = importLegacyMusicData({ grid: [long], beats: long.length });
+    expect(song.bars).toBe(MAX_BARS);
+    expect(song.patterns[0].notes.melody).toMatchObject([
+      { startStep: last, durationSteps: 1, note: "C4" },
+    ]);
+    expect(issues).toEqual([
+      { kind: "past-max-length", row: 0, col: last + 1, note: "C4" },
+      { kind: "past-max-length", row: 0, col: last + 2, note: "E4" },
+    ]);
+  });
+
+  it.each([
+    [0.8, 0.8],
+    [80, 0.8],
+    [150, 1],
+    [-1, 0],
+  ])("reads volume %s as %s", (volume, expected) => {
+    expect(fromLegacyMusicData(data([], { volume })).volume).toBe(expected);
+  });
+
+  it("keeps the tempo within what songs allow", () => {
+    expect(fromLegacyMusicData(data([], { bpm: 250 })).bpm).toBe(MAX_BPM);
+    expect(fromLegacyMusicData(data([], { bpm: 10 })).bpm).toBe(MIN_BPM);
+  });
+
+  it("falls back to the pianica for unknown instruments", () => {
+    const instrumentOf = (instrument: string) =>
+      fromLegacyMusicData(data([], { instrument })).melody.tracks[0].instrument;
+    expect(instrumentOf("kazoo")).toBe("pianica");
+    expect(instrumentOf("piano")).toBe("piano");
+  });
+});
+
+describe("toLegacyMusicData", () => {
+  const grid = [
+    row({ 0: start("C5", 2), 1: sustained("C5") }),
+    row({ 4: start("E4", 3), 5: sustained("E4"), 6: sustained("E4") }),
+    row({ 8: start("C4", 1) }),
+    row({ 0: { note: "KICK" }, 12: { note: "KICK" } }),
+  ];
+  const song = fromLegacyMusicData(data(grid, { bpm: 90, instrument: "piano", volume: 60 }));
+
+  it("writes a row per key of the track's range, top down, then the drum rows", () => {
+    const legacy = toLegacyMusicData(song);
+    // C5 down to C4 in white keys, then hi-hat, snare and kick
+    expect(legacy.grid).toHaveLength(8 + 3);
+    expect(legacy.grid[0].slice(0, 3)).toEqual([
+      { note: "C5", start: true, end: false, length: 2 },
+      { note: "C5", sustained: true, end: true },
+      null,
+    ]);
+    expect(legacy.grid[10][0]).toEqual({ note: "KICK" });
+    expect(legacy).toMatchObject({ bpm: 90, instrument: "piano", beats: BEATS, volume: 0.6 });
+  });
+
+  it("writes black-key rows only when accidentals are allowed", () => {
+    const drumRows = 3;
+    expect(toLegacyMusicData(DEFAULT_SONG).grid).toHaveLength(8 + drumRows);
+    const chromatic = fromLegacyMusicData(data([row({ 0: start("C#4", 1) })]));
+    expect(chromatic.constraints.allowAccidentals).toBe(true);
+    expect(toLegacyMusicData(chromatic).grid).toHaveLength(13 + drumRows);
+  });
+
+  // Volume read as a percentage comes back as the same level in 0-1
+  it("round-trips through the legacy format", () => {
+    const again = importLegacyMusicData(toLegacyMusicData(song));
+    expect(again.issues).toEqual([]);
+    const strip = (s: typeof song) => ({
+      ...s,
+      patterns: s.patterns.map((p) => ({
+        ...p,
+        notes: { melody: p.notes.melody.map((n) => ({ ...n, id: "" })) },
+        hits: p.hits.map((h) => ({ ...h, id: "" })).sort((a, b) => a.step - b.step),
+      })),
+    });
+    expect(strip(again.song)).toEqual(strip(song));
+  });
+});
+
+describe("exportLegacyMusicData", () => {
+  const kinds = (song: Song) => exportLegacyMusicData(song).issues.map((issue) => issue.kind);
+
+  it("reports nothing for 4/4 in sixteenths", () => {
+    expect(kinds(DEFAULT_SONG)).toEqual([]);
+  });
+
+  it("reports a meter the grid can't show", () => {
+    expect(kinds({ ...DEFAULT_SONG, beatsPerBar: 3 })).toEqual(["time-signature"]);
+    // Two steps to an eighth are still sixteenths
+    const sixEight = { ...DEFAULT_SONG, beatsPerBar: 6, beatUnit: 8, stepsPerBeat: 2 } as const;
+    expect(kinds(sixEight)).toEqual(["time-signature"]);
+  });
+
+  it("reports steps that aren't sixteenths", () => {
+    expect(kinds({ ...DEFAULT_SONG, stepsPerBeat: 3 })).toEqual(["step-length"]);
+  });
+
+  it("writes the same grid as toLegacyMusicData", () => {
+    expect(exportLegacyMusicData(DEFAULT_SONG).data).toEqual(toLegacyMusicData(DEFAULT_SONG));
+  });
+});
@@ -1,8 +1,26 @@
-import type { DrumId, InstrumentId, Song } from "./types";
+import type { InstrumentId, MelodyNote, MelodyTrack, NoteName, Pattern, Song } from "./types";
 import { newId } from "./id";
-import { DEFAULT_SONG } from "./defaults";
+import { DEFAULT_PATTERN, DEFAULT_SONG, DEFAULT_TRACK } from "./defaults";
+import { drumForLegacyName, fitDrumRowsToHits, getDrum, visibleDrumRows } from "./drumkit";
+import { DEFAULT_INSTRUMENT, isInstrument } from "./instruments";
+import {
+  clamp,
+  findPattern,
+  findTrack,
+  isWhiteKey,
+  MAX_BARS,
+  MAX_BPM,
+  midiToNoteName,
+  MIN_BPM,
+  normalizeNoteName,
+  noteNameToMidi,
+  patternNotes,
+  PITCH_RANGE_MAX,
+  PITCH_RANGE_MIN,
+  totalSteps,
+} from "./utils";
 
-type LegacyCell = {
+export type LegacyCell = {
   note: string;
   sustained?: boolean;
   start?: boolean;
@@ -10,7 +28,7 @@ type LegacyCell = {
   length?: number;
 } | null;
 
-type LegacyMusicData = {
+export type LegacyMusicData = {
   grid: LegacyCell[][];
   bpm?: number;
   instrument?: string;
@@ -18,58 +36,289 @@ type LegacyMusicData = {
   beats: number;
 };
 
-const DRUM_NOTE_MAP: Record<string, DrumId> = {
-  KICK: "kick",
-  SNARE: "snare",
-  HIHAT: "hihat",
+export type LegacyImportIssue = {
+  kind:
+    | "unknown-note"
+    | "out-of-range"
+    | "orphan-sustain"
+    | "sustain-without-start"
+    | "unmarked-cell"
+    | "past-max-length";
+  row: number;
+  col: number;
+  note: string;
+};
+
+export type LegacyImportResult = {
+  song: Song;
+  issues: LegacyImportIssue[];
+};
+
+// What the grid, always sixteenth-note columns in 4/4, can't say about a song
+export type LegacyExportIssue = {
+  kind: "time-signature" | "step-length";
+};
+
+export type LegacyExportResult = {
+  data: LegacyMusicData;
+  issues: LegacyExportIssue[];
 };
 
 function mapInstrument(instrument?: string): InstrumentId {
-  if (instrument === "pianica" || instrument === "piano" || instrument === "sine") {
+  if (instrument !== undefined && isInstrument(instrument)) {
     return instrument;
   }
-  return "pianica";
+  return DEFAULT_INSTRUMENT;
 }
 
-export function fromLegacyMusicData(musicData: LegacyMusicData): Song {
+// Legacy files stored volume either as 0-1 or as a 0-100 percentage; songs keep 0-1, and
+// export writes that back (see toLegacyMusicData)
+function mapVolume(volume?: number): number | undefined {
+  if (volume === undefined || !Number.isFinite(volume)) {
+    return undefined;
+  }
+  return clamp(volume > 1 ? volume / 100 : volume, 0, 1);
+}
+
+function tryNoteToMidi(note: NoteName): number | null {
+  try {
+    return noteNameToMidi(note);
+  } catch {
+    return null;
+  }
+}
+
+export function parseLegacyMusicData(text: string): LegacyMusicData | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof raw !== "object" || raw === null) {
+    return null;
+  }
+  const data = raw as Partial<LegacyMusicData>;
+  if (!Array.isArray(data.grid) || typeof data.beats !== "number") {
+    return null;
+  }
+  return data as LegacyMusicData;
+}
+
+export function importLegacyMusicData(musicData: LegacyMusicData): LegacyImportResult {
+  // Legacy grids are always 4/4 in sixteenth-note columns
   const stepsPerBeat = 4;
-  const bars = Math.ceil(musicData.beats / (stepsPerBeat * 4));
-  const bpm = musicData.bpm ?? 100;
+  const beatsPerBar = 4;
+  // Longer grids are cut to the longest song the editor allows
+  const bars = clamp(Math.ceil(musicData.beats / (stepsPerBeat * beatsPerBar)), 1, MAX_BARS);
+  const bpm = clamp(musicData.bpm ?? 100, MIN_BPM, MAX_BPM);
   const instrument = mapInstrument(musicData.instrument);
+  const volume = mapVolume(musicData.volume);
 
+  // Legacy files hold a single melody, which becomes the only track of the only pattern
+  const track: MelodyTrack = { ...DEFAULT_TRACK, instrument };
+  const notes: MelodyNote[] = [];
+  const pattern: Pattern = { ...DEFAULT_PATTERN, notes: { [track.id]: notes }, hits: [] };
   const song: Song = {
-    version: 1,
+    version: 4,
     bpm,
     stepsPerBeat,
+    beatsPerBar,
+    beatUnit: 4,
     bars,
-    instrument,
     constraints: { ...DEFAULT_SONG.constraints },
-    melody: { notes: [] },
-    drums: { hits: [] },
+    melody: { tracks: [track] },
+    patterns: [pattern],
+    arrangement: [...DEFAULT_SONG.arrangement],
   };
+  if (volume !== undefined) {
+    song.volume = volume;
+  }
 
-  for (const row of musicData.grid) {
-    for (let col = 0; col < row.length; col++) {
+  const total = totalSteps(song);
+  const issues: LegacyImportIssue[] = [];
+  const lowest = noteNameToMidi(PITCH_RANGE_MIN);
+  const highest = noteNameToMidi(PITCH_RANGE_MAX);
+
+  musicData.grid.forEach((row, rowIndex) => {
+    // The note whose span the following sustained cells belong to
+    let active: { note: string; end: number } | null = null;
+
+    for (let col = 0; col < row.length && col < Math.max(total, musicData.beats); col++) {
       const cell = row[col];
-      if (!cell) continue;
+      if (!cell) {
+        active = null;
+        continue;
+      }
+      if (col >= total) {
+        issues.push({ kind: "past-max-length", row: rowIndex, col, note: cell.note });
+        continue;
+      }
 
-      const drumId = DRUM_NOTE_MAP[cell.note];
+      const drumId = drumForLegacyName(cell.note);
       if (drumId) {
-        song.drums.hits.push({
-          id: newId(),
-          step: col,
-          drumId,
-        });
+        pattern.hits.push({ id: newId(), step: col, drumId });
+        active = null;
+        continue;
+      }
+
+      const issue = (kind: LegacyImportIssue["kind"]) =>
+        issues.push({ kind, row: rowIndex, col, note: cell.note });
+
+      const midi = tryNoteToMidi(cell.note);
+      if (midi === null) {
+        issue("unknown-note");
+        active = null;
+      } else if (midi < lowest || midi > highest) {
+        issue("out-of-range");
+        active = null;
       } else if (cell.start === true) {
-        song.melody.notes.push({
+        const length = cell.length ?? countSustainedRun(row, col, cell.note) + 1;
+        const note: MelodyNote = {
           id: newId(),
           startStep: col,
-          durationSteps: cell.length ?? 1,
-          note: cell.note,
-        });
+          durationSteps: clamp(length, 1, total - col),
+          note: normalizeNoteName(cell.note),
+        };
+        notes.push(note);
+        active = { note: cell.note, end: col + note.durationSteps };
+      } else if (cell.sustained === true) {
+        if (!active || active.note !== cell.note) {
+          issue("sustain-without-start");
+          active = null;
+        } else if (col >= active.end) {
+          issue("orphan-sustain");
+        }
+      } else {
+        issue("unmarked-cell");
+        active = null;
       }
     }
+  });
+
+  fitRangeToNotes(song, track, notes);
+  const drumRows = fitDrumRowsToHits(song, pattern.hits);
+  if (drumRows) {
+    song.drumRows = drumRows;
   }
+  return { song, issues };
+}
 
-  return song;
+export function fromLegacyMusicData(musicData: LegacyMusicData): Song {
+  return importLegacyMusicData(musicData).song;
+}
+
+function countSustainedRun(row: LegacyCell[], startCol: number, note: string): number {
+  let count = 0;
+  for (let col = startCol + 1; col < row.length; col++) {
+    const cell = row[col];
+    if (!cell || cell.note !== note || cell.sustained !== true) break;
+    count++;
+  }
+  return count;
+}
+
+// Widen the default range (never narrow it) so every imported note stays visible
+function fitRangeToNotes(song: Song, track: MelodyTrack, notes: MelodyNote[]): void {
+  let minMidi = noteNameToMidi(track.minNote);
+  let maxMidi = noteNameToMidi(track.maxNote);
+  let hasAccidentals = false;
+
+  for (const note of notes) {
+    const midi = noteNameToMidi(note.note);
+    minMidi = Math.min(minMidi, midi);
+    maxMidi = Math.max(maxMidi, midi);
+    if (!isWhiteKey(midi)) {
+      hasAccidentals = true;
+    }
+  }
+
+  track.minNote = midiToNoteName(minMidi);
+  track.maxNote = midiToNoteName(maxMidi);
+  song.constraints = {
+    ...song.constraints,
+    allowAccidentals: song.constraints.allowAccidentals || hasAccidentals,
+  };
+}
+
+// The old format has one melody grid and no arrangement, so only one track of one pattern
+// is written (the first of each by default). Steps are written one per column whatever
+// their length, so a song in another meter or subdivision comes back with issues.
+export function exportLegacyMusicData(
+  song: Song,
+  trackId: string = song.melody.tracks[0].id,
+  patternId: string = song.patterns[0].id
+): LegacyExportResult {
+  const issues: LegacyExportIssue[] = [];
+  if (song.beatsPerBar !== 4 || song.beatUnit !== 4) {
+    issues.push({ kind: "time-signature" });
+  }
+  // Four steps to a quarter-note beat, or two to an eighth
+  if (song.stepsPerBeat * song.beatUnit !== 16) {
+    issues.push({ kind: "step-length" });
+  }
+  return { data: toLegacyMusicData(song, trackId, patternId), issues };
+}
+
+export function toLegacyMusicData(
+  song: Song,
+  trackId: string = song.melody.tracks[0].id,
+  patternId: string = song.patterns[0].id
+): LegacyMusicData {
+  const track = findTrack(song, trackId) ?? song.melody.tracks[0];
+  const pattern = findPattern(song, patternId) ?? song.patterns[0];
+  const total = totalSteps(song);
+  const minMidi = noteNameToMidi(track.minNote);
+  const maxMidi = noteNameToMidi(track.maxNote);
+
+  const notesByMidi = new Map<number, MelodyNote[]>();
+  for (const note of patternNotes(pattern, track.id)) {
+    const midi = noteNameToMidi(note.note);
+    notesByMidi.set(midi, [...(notesByMidi.get(midi) ?? []), note]);
+  }
+
+  const grid: LegacyCell[][] = [];
+
+  for (let midi = maxMidi; midi >= minMidi; midi--) {
+    const notes = notesByMidi.get(midi) ?? [];
+    if (!song.constraints.allowAccidentals && !isWhiteKey(midi) && notes.length === 0) {
+      continue;
+    }
+
+    const row: LegacyCell[] = Array.from({ length: total }, () => null);
+    for (const note of notes) {
+      const last = note.startStep + note.durationSteps - 1;
+      for (let col = note.startStep; col <= last; col++) {
+        row[col] =
+          col === note.startStep
+            ? { note: note.note, start: true, end: col === last, length: note.durationSteps }
+            : { note: note.note, sustained: true, end: col === last };
+      }
+    }
+    grid.push(row);
+  }
+
+  for (const drumId of visibleDrumRows(song)) {
+    const { legacyName } = getDrum(drumId);
+    const row: LegacyCell[] = Array.from({ length: total }, () => null);
+    for (const hit of pattern.hits) {
+      if (hit.drumId === drumId) {
+        row[hit.step] = { note: legacyName };
+      }
+    }
+    grid.push(row);
+  }
+
+  const data: LegacyMusicData = {
+    grid,
+    bpm: song.bpm,
+    instrument: track.instrument,
+    beats: total,
+  };
+  // Always 0-1, whichever scale the file was read in; mapVolume reads it back as the same
+  // level, so a percentage file re-imports unchanged
+  if (song.volume !== undefined) {
+    data.volume = song.volume;
+  }
+  return data;
 }
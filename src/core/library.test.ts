@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { Song } from "./types";
+import { DEFAULT_SONG } from "./defaults";
+import {
+  DEFAULT_SONG_NAME,
+  duplicateSong,
+  MemorySongStore,
+  openSong,
+  recoverDraft,
+  renameSong,
+  saveDraft,
+  saveSong,
+  songName,
+  sortEntries,
+  upsertEntry,
+} from "./library";
+import { SongFormatError } from "./serialize";
+
+const FAST: Song = { ...DEFAULT_SONG, bpm: 160 };
+
+async function storeWithSong() {
+  const store = new MemorySongStore();
+  const entry = await saveSong(store, { id: "s1", name: "Song", thumbnail: "t" }, FAST, 1000);
+  return { store, entry };
+}
+
+describe("saving and opening", () => {
+  it("saves a song under its entry and opens it again", async () => {
+    const { store, entry } = await storeWithSong();
+    expect(entry).toEqual({ id: "s1", name: "Song", thumbnail: "t", updatedAt: 1000 });
+    expect(await store.list()).toEqual([entry]);
+    expect(await openSong(store, "s1")).toEqual(FAST);
+  });
+
+  it("replaces the stored copy on the next save", async () => {
+    const { store } = await storeWithSong();
+    await saveSong(store, { id: "s1", name: "Song", thumbnail: "t" }, DEFAULT_SONG, 2000);
+    expect(await store.list()).toHaveLength(1);
+    expect(await openSong(store, "s1")).toEqual(DEFAULT_SONG);
+  });
+
+  it("opens nothing for a song that is gone", async () => {
+    expect(await openSong(new MemorySongStore(), "missing")).toBeNull();
+  });
+
+  it("throws SongFormatError for a song that can't be read", async () => {
+    const store = new MemorySongStore();
+    await store.put({ id: "bad", name: "Bad", thumbnail: "", updatedAt: 0, song: "{" });
+    await expect(openSong(store, "bad")).rejects.toThrow(SongFormatError);
+  });
+
+  it("deletes songs", async () => {
+    const { store } = await storeWithSong();
+    await store.delete("s1");
+    expect(await store.list()).toEqual([]);
+    expect(await openSong(store, "s1")).toBeNull();
+  });
+});
+
+describe("renameSong", () => {
+  it("renames the stored song and keeps its contents", async () => {
+    const { store } = await storeWithSong();
+    const renamed = await renameSong(store, "s1", "Verse idea");
+    expect(renamed).toMatchObject({ id: "s1", name: "Verse idea", updatedAt: 1000 });
+    expect(await openSong(store, "s1")).toEqual(FAST);
+  });
+
+  it("returns null for a song that is gone", async () => {
+    expect(await renameSong(new MemorySongStore(), "missing", "x")).toBeNull();
+  });
+});
+
+describe("duplicateSong", () => {
+  it("stores a copy under a new id", async () => {
+    const { store } = await storeWithSong();
+    const copy = await duplicateSong(store, "s1", 3000);
+    expect(copy).toMatchObject({ name: "Song (copy)", thumbnail: "t", updatedAt: 3000 });
+    expect(copy?.id).not.toBe("s1");
+    expect(await store.list()).toHaveLength(2);
+    expect(await openSong(store, copy?.id ?? "")).toEqual(FAST);
+  });
+
+  it("returns null for a song that is gone", async () => {
+    expect(await duplicateSong(new MemorySongStore(), "missing")).toBeNull();
+  });
+});
+
+describe("drafts", () => {
+  it("recovers the last draft saved", async () => {
+    const store = new MemorySongStore();
+    await saveDraft(store, "s1", "Song", DEFAULT_SONG, 1000);
+    await saveDraft(store, "s1", "Song", FAST, 2000);
+    expect(await recoverDraft(store)).toEqual({ songId: "s1", name: "Song", song: FAST });
+  });
+
+  it("recovers nothing when there is no draft", async () => {
+    expect(await recoverDraft(new MemorySongStore())).toBeNull();
+  });
+
+  it("recovers nothing from a draft that can't be read", async () => {
+    const store = new MemorySongStore();
+    await store.putDraft({ songId: "s1", name: "Song", song: "{}", savedAt: 0 });
+    expect(await recoverDraft(store)).toBeNull();
+  });
+});
+
+describe("entries", () => {
+  const entry = (id: string, updatedAt: number) => ({ id, name: id, thumbnail: "", updatedAt });
+
+  it("lists the most recently changed first", () => {
+    expect(sortEntries([entry("a", 1), entry("b", 3), entry("c", 2)]).map((e) => e.id)).toEqual([
+      "b",
+      "c",
+      "a",
+    ]);
+  });
+
+  it("replaces an entry with the same id", () => {
+    const entries = [entry("a", 2), entry("b", 1)];
+    expect(upsertEntry(entries, entry("b", 5))).toEqual([entry("b", 5), entry("a", 2)]);
+    expect(upsertEntry(entries, entry("c", 0))).toHaveLength(3);
+  });
+});
+
+describe("songName", () => {
+  it("names songs after their assignment", () => {
+    const song = { ...DEFAULT_SONG, assignment: { title: "  Round  ", instructions: "" } };
+    expect(songName(song)).toBe("Round");
+  });
+
+  it("falls back when there is no assignment title", () => {
+    expect(songName(DEFAULT_SONG)).toBe(DEFAULT_SONG_NAME);
+    expect(songName(DEFAULT_SONG, "tune.mid")).toBe("tune.mid");
+    const untitled = { ...DEFAULT_SONG, assignment: { title: " ", instructions: "" } };
+    expect(songName(untitled, "tune.mid")).toBe("tune.mid");
+  });
+});
@@ -0,0 +1,143 @@
+import type { Song } from "./types";
+import { newId } from "./id";
+import { parseSong, serializeSong } from "./serialize";
+
+export const DEFAULT_SONG_NAME = "Untitled";
+
+// One song of the local library as listed; the song itself is only read when opened
+export type LibraryEntry = {
+  id: string;
+  name: string;
+  updatedAt: number; // ms since the epoch
+  thumbnail: string; // image URL
+};
+
+// Songs are kept as song files, so opening one migrates it like opening a file would
+export type StoredSong = LibraryEntry & { song: string };
+
+// The song being edited, written on every change so a crash or reload can't lose it
+export type Draft = { songId: string; name: string; song: string; savedAt: number };
+
+// Where the library lives: IndexedDB in the browser, or memory
+export type SongStore = {
+  list(): Promise<LibraryEntry[]>;
+  get(id: string): Promise<StoredSong | null>;
+  put(record: StoredSong): Promise<void>;
+  delete(id: string): Promise<void>;
+  getDraft(): Promise<Draft | null>;
+  putDraft(draft: Draft): Promise<void>;
+};
+
+export class MemorySongStore implements SongStore {
+  private readonly songs = new Map<string, StoredSong>();
+  private draft: Draft | null = null;
+
+  async list(): Promise<LibraryEntry[]> {
+    return Array.from(this.songs.values(), entryOf);
+  }
+
+  async get(id: string): Promise<StoredSong | null> {
+    return this.songs.get(id) ?? null;
+  }
+
+  async put(record: StoredSong): Promise<void> {
+    this.songs.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.songs.delete(id);
+  }
+
+  async getDraft(): Promise<Draft | null> {
+    return this.draft;
+  }
+
+  async putDraft(draft: Draft): Promise<void> {
+    this.draft = draft;
+  }
+}
+
+export function entryOf(record: StoredSong): LibraryEntry {
+  const { id, name, updatedAt, thumbnail } = record;
+  return { id, name, updatedAt, thumbnail };
+}
+
+// Most recently changed first
+export function sortEntries(entries: LibraryEntry[]): LibraryEntry[] {
+  return [...entries].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Replaces the entry with the same id, or adds it
+export function upsertEntry(entries: LibraryEntry[], entry: LibraryEntry): LibraryEntry[] {
+  return sortEntries([...entries.filter((e) => e.id !== entry.id), entry]);
+}
+
+// What a new library song is called before the student renames it: the assignment's title,
+// else `fallback` (such as the name of the file it came from)
+export function songName(song: Song, fallback: string = DEFAULT_SONG_NAME): string {
+  return song.assignment?.title.trim() || fallback;
+}
+
+export async function saveSong(
+  store: SongStore,
+  entry: Omit<LibraryEntry, "updatedAt">,
+  song: Song,
+  now: number = Date.now()
+): Promise<LibraryEntry> {
+  const record: StoredSong = { ...entry, updatedAt: now, song: serializeSong(song) };
+  await store.put(record);
+  return entryOf(record);
+}
+
+// Null when the song is gone; throws SongFormatError when it can no longer be read
+export async function openSong(store: SongStore, id: string): Promise<Song | null> {
+  const record = await store.get(id);
+  return record && parseSong(record.song);
+}
+
+export async function renameSong(
+  store: SongStore,
+  id: string,
+  name: string
+): Promise<LibraryEntry | null> {
+  const record = await store.get(id);
+  if (!record) return null;
+  const renamed = { ...record, name };
+  await store.put(renamed);
+  return entryOf(renamed);
+}
+
+export async function duplicateSong(
+  store: SongStore,
+  id: string,
+  now: number = Date.now()
+): Promise<LibraryEntry | null> {
+  const record = await store.get(id);
+  if (!record) return null;
+  const copy = { ...record, id: newId(), name: `${record.name} (copy)`, updatedAt: now };
+  await store.put(copy);
+  return entryOf(copy);
+}
+
+export async function saveDraft(
+  store: SongStore,
+  songId: string,
+  name: string,
+  song: Song,
+  now: number = Date.now()
+): Promise<void> {
+  await store.putDraft({ songId, name, song: serializeSong(song), savedAt: now });
+}
+
+// The draft left by the last session; null when there is none or it can't be read
+export async function recoverDraft(
+  store: SongStore
+): Promise<{ songId: string; name: string; song: Song } | null> {
+  const draft = await store.getDraft();
+  if (!draft) return null;
+  try {
+    return { songId: draft.songId, name: draft.name, song: parseSong(draft.song) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { MelodyNote, Song } from "./types";
+import { DEFAULT_SONG, DEFAULT_TRACK } from "./defaults";
+import type { InstrumentInfo } from "./instruments";
+import { registerInstrument, unregisterInstrument } from "./instruments";
+import { isMidiFile, MidiFormatError, midiToSong, songToMidi } from "./midi";
+
+// Instruments registered by a test, taken out of the shared registry again after it
+const registered: string[] = [];
+
+function registerForTest(id: string, info: InstrumentInfo): void {
+  registerInstrument(id, info);
+  registered.push(id);
+}
+
+afterEach(() => {
+  for (const id of registered.splice(0)) unregisterInstrument(id);
+});
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const DRUM_CHANNEL = 9;
+
+function note(startStep: number, durationSteps: number, name: string, velocity = 0.5) {
+  return { id: `${name}-${startStep}`, startStep, durationSteps, note: name, velocity };
+}
+
+// The default song (4/4, 4 bars of 16 steps, 100 bpm) with `notes` in its one pattern
+function songWith(notes: MelodyNote[], hits: Song["patterns"][number]["hits"] = []): Song {
+  return {
+    ...DEFAULT_SONG,
+    patterns: [{ ...DEFAULT_SONG.patterns[0], notes: { melody: notes }, hits }],
+  };
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+// The body of each MTrk chunk
+function trackChunks(bytes: Uint8Array): number[][] {
+  const chunks: number[][] = [];
+  let pos = 14;
+  while (pos < bytes.length) {
+    const length =
+      (bytes[pos + 4] << 24) | (bytes[pos + 5] << 16) | (bytes[pos + 6] << 8) | bytes[pos + 7];
+    chunks.push(Array.from(bytes.subarray(pos + 8, pos + 8 + length)));
+    pos += 8 + length;
+  }
+  return chunks;
+}
+
+// Where `needle` first appears in `haystack`, or -1
+function indexOf(haystack: number[], needle: number[]): number {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((b, j) => haystack[i + j] === b)) return i;
+  }
+  return -1;
+}
+
+function midiFile(division: number, ...tracks: number[][]): Uint8Array {
+  const format = tracks.length > 1 ? 1 : 0;
+  const header = [...ascii("MThd"), 0, 0, 0, 6, 0, format, 0, tracks.length];
+  const chunks = tracks.flatMap((body) => [
+    ...ascii("MTrk"),
+    0,
+    0,
+    (body.length >> 8) & 0xff,
+    body.length & 0xff,
+    ...body,
+  ]);
+  return Uint8Array.from([...header, division >> 8, division & 0xff, ...chunks]);
+}
+
+describe("songToMidi", () => {
+  it("writes a format 1 header with a track per melody track plus tempo and drum tracks", () => {
+    const bytes = songToMidi(DEFAULT_SONG);
+    expect(isMidiFile(bytes)).toBe(true);
+    expect(Array.from(bytes.subarray(0, 14))).toEqual([
+      ...ascii("MThd"),
+      0, 0, 0, 6, // header length
+      0, 1, // format 1
+      0, 3, // tempo track, melody, drums
+      0x01, 0xe0, // 480 ticks per quarter note
+    ]);
+    expect(trackChunks(bytes)).toHaveLength(3);
+  });
+
+  it("writes tempo and time signature to the first track", () => {
+    const [conductor] = trackChunks(songToMidi(DEFAULT_SONG));
+    // 100 bpm: 600000 µs per quarter note
+    expect(indexOf(conductor, [0xff, 0x51, 3, 0x09, 0x27, 0xc0])).toBeGreaterThan(-1);
+    // 4/4, 24 clocks per click, 8 32nds per quarter
+    expect(indexOf(conductor, [0xff, 0x58, 4, 4, 2, 24, 8])).toBeGreaterThan(-1);
+  });
+
+  it("writes tempo per quarter note for songs counted in eighths", () => {
+    const song: Song = { ...DEFAULT_SONG, bpm: 120, beatsPerBar: 6, beatUnit: 8 };
+    const [conductor] = trackChunks(songToMidi(song));
+    // 120 eighths a minute is 60 quarters: 1000000 µs per quarter note
+    expect(indexOf(conductor, [0xff, 0x51, 3, 0x0f, 0x42, 0x40])).toBeGreaterThan(-1);
+    expect(indexOf(conductor, [0xff, 0x58, 4, 6, 3, 24, 8])).toBeGreaterThan(-1);
+  });
+
+  it("writes the melody on channel 1 with its program and volume", () => {
+    const song = songWith([note(0, 2, "C4")]);
+    const melody = trackChunks(songToMidi(song))[1];
+    expect(indexOf(melody, [0xc0, 22])).toBeGreaterThan(-1); // pianica as Harmonica
+    expect(indexOf(melody, [0xb0, 7, 127])).toBeGreaterThan(-1);
+    // Two steps are 240 ticks (0x81 0x70)
+    const noteBytes = [0, NOTE_ON, 60, 64, 0x81, 0x70, NOTE_OFF, 60, 0];
+    expect(indexOf(melody, noteBytes)).toBeGreaterThan(-1);
+  });
+
+  it("writes drums on channel 10 with General MIDI keys", () => {
+    const song = songWith(
+      [],
+      [
+        { id: "k", step: 0, drumId: "kick" },
+        { id: "s", step: 4, drumId: "snare", velocity: 1 },
+      ]
+    );
+    const drums = trackChunks(songToMidi(song))[2];
+    expect(indexOf(drums, [0, NOTE_ON | DRUM_CHANNEL, 36, 100])).toBeGreaterThan(-1);
+    expect(indexOf(drums, [NOTE_ON | DRUM_CHANNEL, 38, 127])).toBeGreaterThan(-1);
+    expect(drums.some((b, i) => b === (NOTE_ON | 0) && drums[i + 1] === 36)).toBe(false);
+  });
+
+  it("leaves the drums out when they are turned off", () => {
+    const song = songWith([], [{ id: "k", step: 0, drumId: "kick" }]);
+    const off = { ...song, constraints: { ...song.constraints, drumsEnabled: false } };
+    const drums = trackChunks(songToMidi(off))[2];
+    expect(drums.includes(NOTE_ON | DRUM_CHANNEL)).toBe(false);
+  });
+
+  it("switches a note off before the same pitch starts again on the same tick", () => {
+    const song = songWith([note(0, 2, "C4"), note(2, 2, "C4")]);
+    const melody = trackChunks(songToMidi(song))[1];
+    const off = indexOf(melody, [0x81, 0x70, NOTE_OFF, 60, 0]);
+    expect(off).toBeGreaterThan(-1);
+    expect(melody.slice(off + 5, off + 9)).toEqual([0, NOTE_ON, 60, 64]);
+  });
+
+  it("ends every track with the song so trailing silence is kept", () => {
+    const song = songWith([note(0, 1, "C4")]);
+    const melody = trackChunks(songToMidi(song))[1];
+    // Note off at tick 120, end of track 7560 ticks later at 64 steps × 120
+    expect(melody.slice(-5)).toEqual([0xbb, 0x08, 0xff, 0x2f, 0]);
+  });
+});
+
+describe("midiToSong", () => {
+  it("reads notes written with running status", () => {
+    const track = [
+      0, NOTE_ON, 60, 100,
+      96, 60, 0, // running status: note on with velocity 0 ends C4
+      0, 64, 80, // E4
+      48, NOTE_OFF, 64, 0,
+      0, 67, 0, // running status now note off; nothing open, ignored
+      0, 0xff, 0x2f, 0,
+    ];
+    const song = midiToSong(midiFile(96, track));
+    expect(song.patterns[0].notes.melody).toMatchObject([
+      { startStep: 0, durationSteps: 4, note: "C4", velocity: 0.79 },
+      { startStep: 4, durationSteps: 2, note: "E4", velocity: 0.63 },
+    ]);
+  });
+
+  it("rejects data before any status byte", () => {
+    const track = [0, 60, 100, 0, 0xff, 0x2f, 0];
+    expect(() => midiToSong(midiFile(96, track))).toThrow(MidiFormatError);
+  });
+
+  it("reads channel 10 as drums", () => {
+    const track = [
+      0, NOTE_ON | DRUM_CHANNEL, 36, 127,
+      24, NOTE_ON | DRUM_CHANNEL, 36, 0,
+      0, NOTE_ON | DRUM_CHANNEL, 42, 64,
+      24, NOTE_OFF | DRUM_CHANNEL, 42, 0,
+      0, 0xff, 0x2f, 0,
+    ];
+    const song = midiToSong(midiFile(96, track));
+    expect(song.patterns[0].hits).toMatchObject([
+      { step: 0, drumId: "kick", velocity: 1 },
+      { step: 1, drumId: "hihat", velocity: 0.5 },
+    ]);
+    expect(song.melody.tracks).toHaveLength(1);
+    expect(song.patterns[0].notes).toEqual({});
+  });
+
+  it("rejects files that aren't MIDI", () => {
+    expect(() => midiToSong(Uint8Array.from(ascii("RIFF0000")))).toThrow(MidiFormatError);
+  });
+});
+
+describe("MIDI round trip", () => {
+  it("keeps tempo, meter, tracks, notes and hits", () => {
+    const bass = { ...DEFAULT_TRACK, id: "bass", name: "Bass", instrument: "piano" as const };
+    const song: Song = {
+      ...DEFAULT_SONG,
+      bpm: 90,
+      beatsPerBar: 3,
+      bars: 2,
+      constraints: { ...DEFAULT_SONG.constraints, allowAccidentals: true },
+      melody: { tracks: [{ ...DEFAULT_TRACK, volume: 0.8 }, bass] },
+      patterns: [
+        {
+          ...DEFAULT_SONG.patterns[0],
+          notes: {
+            melody: [note(0, 4, "E4"), note(4, 2, "F#4", 1), note(6, 2, "F#4")],
+            bass: [note(0, 12, "C3"), note(12, 12, "G2", 0.8)],
+          },
+          hits: [
+            { id: "k", step: 0, drumId: "kick", velocity: 0.5 },
+            { id: "s", step: 6, drumId: "snare", velocity: 0.5 },
+          ],
+        },
+      ],
+    };
+
+    const opened = midiToSong(songToMidi(song));
+    expect(opened).toMatchObject({
+      bpm: 90,
+      beatsPerBar: 3,
+      beatUnit: 4,
+      stepsPerBeat: 4,
+      bars: 2,
+      constraints: { allowAccidentals: true },
+    });
+    expect(opened.melody.tracks).toMatchObject([
+      { name: "Melody", instrument: "pianica", volume: 0.8 },
+      { name: "Bass", instrument: "piano", volume: 1 },
+    ]);
+    const [melodyTrack, bassTrack] = opened.melody.tracks;
+    const strip = (notes: MelodyNote[]) => notes.map((n) => ({ ...n, id: "" }));
+    expect(strip(opened.patterns[0].notes[melodyTrack.id])).toEqual(
+      strip(song.patterns[0].notes.melody)
+    );
+    expect(strip(opened.patterns[0].notes[bassTrack.id])).toEqual(
+      strip(song.patterns[0].notes.bass)
+    );
+    expect(opened.patterns[0].hits).toMatchObject(
+      song.patterns[0].hits.map(({ step, drumId, velocity }) => ({ step, drumId, velocity }))
+    );
+  });
+
+  it("keeps an instrument registered after the built-in ones", () => {
+    registerForTest("organ", { label: "Organ", program: 19 }); // Church Organ
+    const song: Song = {
+      ...songWith([note(0, 2, "C4")]),
+      melody: { tracks: [{ ...DEFAULT_TRACK, instrument: "organ" }] },
+    };
+    const bytes = songToMidi(song);
+    expect(indexOf(trackChunks(bytes)[1], [0xc0, 19])).toBeGreaterThan(-1);
+    expect(midiToSong(bytes).melody.tracks[0].instrument).toBe("organ");
+  });
+
+  it("plays the arrangement out into a single pattern", () => {
+    const song: Song = {
+      ...songWith([note(0, 2, "G4")]),
+      bars: 1,
+      arrangement: [{ patternId: "a", repeats: 3 }],
+    };
+    const opened = midiToSong(songToMidi(song));
+    expect(opened.bars).toBe(3);
+    expect(opened.patterns[0].notes.melody.map((n) => n.startStep)).toEqual([0, 16, 32]);
+  });
+});
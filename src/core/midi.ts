@@ -0,0 +1,587 @@
+import type {
+  BeatUnit,
+  DrumHit,
+  DrumId,
+  InstrumentId,
+  MelodyNote,
+  MelodyTrack,
+  Song,
+} from "./types";
+import { newId } from "./id";
+import { arrangedHits, arrangedNotes, arrangementSteps } from "./arrangement";
+import { DEFAULT_PATTERN, DEFAULT_SONG, DEFAULT_TRACK } from "./defaults";
+import { fitDrumRowsToHits, getDrum, listDrums } from "./drumkit";
+import { grooveTimingOffset, grooveVelocity } from "./groove";
+import { getInstrument, listInstruments } from "./instruments";
+import {
+  clamp,
+  isWhiteKey,
+  MAX_BARS,
+  MAX_BPM,
+  MAX_TRACKS,
+  MIN_BPM,
+  midiToNoteName,
+  noteNameToMidi,
+  PITCH_RANGE_MAX,
+  PITCH_RANGE_MIN,
+  stepsPerBar,
+  totalSteps,
+} from "./utils";
+
+export class MidiFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MidiFormatError";
+  }
+}
+
+const PPQ = 480;
+const DRUM_CHANNEL = 9; // channel 10 in 1-based numbering
+const VOLUME_CONTROLLER = 7;
+const DEFAULT_MIDI_VELOCITY = 100;
+
+// General MIDI percussion keys read as the nearest kit drum, on top of each drum's own key
+const KEY_TO_DRUM: Record<number, DrumId> = {
+  35: "kick",
+  40: "snare",
+  41: "tom",
+  43: "tom",
+  44: "hihat",
+  47: "tom",
+  48: "tom",
+  50: "tom",
+  ...Object.fromEntries(listDrums().map((drum) => [drum.midiKey, drum.id])),
+};
+
+type TrackEvent = { tick: number; order: number; data: number[] };
+
+export function isMidiFile(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 4 &&
+    bytes[0] === 0x4d && // M
+    bytes[1] === 0x54 && // T
+    bytes[2] === 0x68 && // h
+    bytes[3] === 0x64 // d
+  );
+}
+
+// --- Writer ---
+
+// MIDI tempo is always per quarter note, while song.bpm counts beats of song.beatUnit
+function ticksPerBeat(division: number, beatUnit: BeatUnit): number {
+  return (division * 4) / beatUnit;
+}
+
+export function songToMidi(song: Song): Uint8Array {
+  const ticksPerStep = ticksPerBeat(PPQ, song.beatUnit) / song.stepsPerBeat;
+  const microsPerQuarter = Math.round(((60_000_000 / song.bpm) * song.beatUnit) / 4);
+
+  const conductor: TrackEvent[] = [
+    { tick: 0, order: 0, data: metaEvent(0x03, textBytes("BeatBubble")) },
+    {
+      tick: 0,
+      order: 0,
+      data: metaEvent(0x51, [
+        (microsPerQuarter >> 16) & 0xff,
+        (microsPerQuarter >> 8) & 0xff,
+        microsPerQuarter & 0xff,
+      ]),
+    },
+    {
+      tick: 0,
+      order: 0,
+      data: metaEvent(0x58, [song.beatsPerBar, Math.log2(song.beatUnit), 24, 8]),
+    },
+  ];
+
+  const melody = song.melody.tracks.map((track, i) => {
+    const channel = melodyChannel(i);
+    const events: TrackEvent[] = [
+      { tick: 0, order: 0, data: metaEvent(0x03, textBytes(track.name)) },
+      { tick: 0, order: 0, data: [0xc0 | channel, getInstrument(track.instrument).program] },
+      { tick: 0, order: 0, data: [0xb0 | channel, VOLUME_CONTROLLER, toMidiVolume(track.volume)] },
+    ];
+    for (const note of arrangedNotes(song, track.id)) {
+      const key = noteNameToMidi(note.note);
+      const velocity = toMidiVelocity(groovedVelocity(song, note.startStep, note.velocity));
+      const start = groovedTick(song, note.startStep, ticksPerStep);
+      const end = groovedTick(song, note.startStep + note.durationSteps, ticksPerStep);
+      events.push(
+        { tick: start, order: 2, data: [0x90 | channel, key, velocity] },
+        { tick: end, order: 1, data: [0x80 | channel, key, 0] }
+      );
+    }
+    return events;
+  });
+
+  const drums: TrackEvent[] = [{ tick: 0, order: 0, data: metaEvent(0x03, textBytes("Drums")) }];
+  const exportedHits = song.constraints.drumsEnabled ? arrangedHits(song) : [];
+  for (const hit of exportedHits) {
+    const key = getDrum(hit.drumId).midiKey;
+    const velocity = toMidiVelocity(groovedVelocity(song, hit.step, hit.velocity));
+    const start = groovedTick(song, hit.step, ticksPerStep);
+    const end = groovedTick(song, hit.step + 1, ticksPerStep);
+    drums.push(
+      { tick: start, order: 2, data: [0x90 | DRUM_CHANNEL, key, velocity] },
+      { tick: end, order: 1, data: [0x80 | DRUM_CHANNEL, key, 0] }
+    );
+  }
+
+  // Every track ends with the arrangement so trailing silence survives a round-trip
+  const endTick = arrangementSteps(song) * ticksPerStep;
+  const tracks = [conductor, ...melody, drums].map((events) => encodeTrack(events, endTick));
+  const header = [
+    ...textBytes("MThd"),
+    ...uint32(6),
+    ...uint16(1), // format 1: simultaneous tracks
+    ...uint16(tracks.length),
+    ...uint16(PPQ),
+  ];
+
+  return Uint8Array.from([...header, ...tracks.flat()]);
+}
+
+// Melody tracks take channels in order, stepping over the drum channel
+function melodyChannel(index: number): number {
+  return index < DRUM_CHANNEL ? index : index + 1;
+}
+
+function toMidiVolume(volume: number): number {
+  return Math.round(volume * 127);
+}
+
+function fromMidiVolume(volume: number): number {
+  return Math.round((volume / 127) * 100) / 100;
+}
+
+// Exports write the groove into the timing and velocities, as heard on playback
+function groovedTick(song: Song, step: number, ticksPerStep: number): number {
+  return Math.max(0, Math.round((step + grooveTimingOffset(song, step)) * ticksPerStep));
+}
+
+function groovedVelocity(song: Song, step: number, velocity?: number): number | undefined {
+  if (!song.groove) return velocity;
+  return grooveVelocity(song, step, velocity ?? DEFAULT_MIDI_VELOCITY / 127);
+}
+
+function toMidiVelocity(velocity?: number): number {
+  if (velocity === undefined) return DEFAULT_MIDI_VELOCITY;
+  return clamp(Math.round(velocity * 127), 1, 127);
+}
+
+function fromMidiVelocity(velocity: number): number {
+  return Math.round((velocity / 127) * 100) / 100;
+}
+
+function encodeTrack(events: TrackEvent[], endTick: number): number[] {
+  // Note-offs sort before note-ons on the same tick so retriggered pitches don't cut short
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  for (const event of sorted) {
+    body.push(...variableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  body.push(...variableLength(Math.max(0, endTick - lastTick)), ...metaEvent(0x2f, []));
+  return [...textBytes("MTrk"), ...uint32(body.length), ...body];
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...variableLength(data.length), ...data];
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+// --- Reader ---
+
+type ParsedNote = { channel: number; key: number; start: number; end: number; velocity: number };
+
+// Settings of one non-drum channel, which becomes one melody track
+type ParsedChannel = { name: string | null; program: number | null; volume: number | null };
+
+type ParsedMidi = {
+  division: number;
+  microsPerQuarter: number | null;
+  channels: Map<number, ParsedChannel>;
+  timeSignature: { beatsPerBar: number; beatUnit: BeatUnit } | null;
+  endTick: number;
+  notes: ParsedNote[];
+};
+
+class ByteReader {
+  pos = 0;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    private readonly end: number = bytes.length
+  ) {}
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  byte(): number {
+    if (this.pos >= this.end) {
+      throw new MidiFormatError("Unexpected end of MIDI data");
+    }
+    return this.bytes[this.pos++];
+  }
+
+  uint16(): number {
+    return (this.byte() << 8) | this.byte();
+  }
+
+  uint32(): number {
+    return ((this.byte() << 24) >>> 0) + (this.byte() << 16) + (this.byte() << 8) + this.byte();
+  }
+
+  text(length: number): string {
+    let result = "";
+    for (let i = 0; i < length; i++) {
+      result += String.fromCharCode(this.byte());
+    }
+    return result;
+  }
+
+  variableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.byte();
+      value = (value << 7) | (b & 0x7f);
+      if ((b & 0x80) === 0) return value;
+    }
+    throw new MidiFormatError("Variable-length quantity is longer than 4 bytes");
+  }
+
+  skip(length: number): void {
+    if (this.pos + length > this.end) {
+      throw new MidiFormatError("Unexpected end of MIDI data");
+    }
+    this.pos += length;
+  }
+}
+
+function parseMidi(bytes: Uint8Array): ParsedMidi {
+  if (!isMidiFile(bytes)) {
+    throw new MidiFormatError("Not a Standard MIDI File (missing MThd header)");
+  }
+
+  const reader = new ByteReader(bytes);
+  reader.text(4);
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.skip(headerLength - 6);
+
+  if (format > 1) {
+    throw new MidiFormatError(`MIDI format ${format} is not supported`);
+  }
+  if (division & 0x8000) {
+    throw new MidiFormatError("SMPTE time division is not supported");
+  }
+
+  const result: ParsedMidi = {
+    division,
+    microsPerQuarter: null,
+    channels: new Map(),
+    timeSignature: null,
+    endTick: 0,
+    notes: [],
+  };
+
+  for (let t = 0; t < trackCount && !reader.done; t++) {
+    const chunkType = reader.text(4);
+    const length = reader.uint32();
+    if (chunkType !== "MTrk") {
+      reader.skip(length);
+      continue;
+    }
+    const track = new ByteReader(bytes, reader.pos + length);
+    track.pos = reader.pos;
+    parseTrack(track, result);
+    reader.skip(length);
+  }
+
+  return result;
+}
+
+function channelInfo(result: ParsedMidi, channel: number): ParsedChannel {
+  let info = result.channels.get(channel);
+  if (!info) {
+    info = { name: null, program: null, volume: null };
+    result.channels.set(channel, info);
+  }
+  return info;
+}
+
+function parseTrack(reader: ByteReader, result: ParsedMidi): void {
+  const open = new Map<number, { start: number; velocity: number }>();
+  const playedChannels = new Set<number>();
+  let trackName: string | null = null;
+  let tick = 0;
+  let runningStatus = 0;
+
+  const closeNote = (channel: number, key: number) => {
+    const id = channel * 128 + key;
+    const pending = open.get(id);
+    if (pending) {
+      result.notes.push({ channel, key, start: pending.start, end: tick, velocity: pending.velocity });
+      open.delete(id);
+    }
+  };
+
+  while (!reader.done) {
+    tick += reader.variableLength();
+    let status = reader.byte();
+
+    if (status === 0xff) {
+      const type = reader.byte();
+      const length = reader.variableLength();
+      if (type === 0x51 && length === 3 && result.microsPerQuarter === null) {
+        result.microsPerQuarter = (reader.byte() << 16) | (reader.byte() << 8) | reader.byte();
+      } else if (type === 0x03 && trackName === null) {
+        const name = Uint8Array.from({ length }, () => reader.byte());
+        trackName = new TextDecoder().decode(name).trim() || null;
+      } else if (type === 0x58 && length === 4 && result.timeSignature === null) {
+        const numerator = reader.byte();
+        const denominator = 2 ** reader.byte();
+        reader.skip(2);
+        if ((denominator === 4 || denominator === 8) && numerator >= 1 && numerator <= 12) {
+          result.timeSignature = { beatsPerBar: numerator, beatUnit: denominator };
+        }
+      } else {
+        reader.skip(length);
+      }
+      if (type === 0x2f) {
+        result.endTick = Math.max(result.endTick, tick);
+        break;
+      }
+      continue;
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.variableLength());
+      continue;
+    }
+
+    let firstData: number;
+    if (status & 0x80) {
+      runningStatus = status;
+      firstData = reader.byte();
+    } else {
+      if (!runningStatus) {
+        throw new MidiFormatError("Data byte without a preceding status byte");
+      }
+      firstData = status;
+      status = runningStatus;
+    }
+
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+
+    switch (type) {
+      case 0x90: {
+        const velocity = reader.byte();
+        closeNote(channel, firstData);
+        if (velocity > 0) {
+          open.set(channel * 128 + firstData, { start: tick, velocity });
+          playedChannels.add(channel);
+        }
+        break;
+      }
+      case 0x80:
+        reader.byte();
+        closeNote(channel, firstData);
+        break;
+      case 0xc0:
+        if (channel !== DRUM_CHANNEL) {
+          const info = channelInfo(result, channel);
+          info.program ??= firstData;
+        }
+        break;
+      case 0xd0:
+        break;
+      case 0xb0: {
+        const value = reader.byte();
+        if (channel !== DRUM_CHANNEL && firstData === VOLUME_CONTROLLER) {
+          const info = channelInfo(result, channel);
+          info.volume ??= value;
+        }
+        break;
+      }
+      default:
+        // 0xA0 aftertouch, 0xE0 pitch bend: two data bytes
+        reader.byte();
+    }
+  }
+
+  // Notes never switched off end with the track
+  for (const id of Array.from(open.keys())) {
+    closeNote(Math.floor(id / 128), id % 128);
+  }
+
+  // A track's name labels the channels it plays
+  for (const channel of playedChannels) {
+    if (channel === DRUM_CHANNEL) continue;
+    const info = channelInfo(result, channel);
+    info.name ??= trackName;
+  }
+}
+
+function programToInstrument(program: number | null): InstrumentId {
+  const match = listInstruments().find((instrument) => instrument.program === program);
+  return match?.id ?? DEFAULT_TRACK.instrument;
+}
+
+export function midiToSong(bytes: Uint8Array): Song {
+  const parsed = parseMidi(bytes);
+  const stepsPerBeat = DEFAULT_SONG.stepsPerBeat;
+  const { beatsPerBar, beatUnit } = parsed.timeSignature ?? DEFAULT_SONG;
+  const ticksPerStep = ticksPerBeat(parsed.division, beatUnit) / stepsPerBeat;
+  const bpm = parsed.microsPerQuarter
+    ? clamp(Math.round(((60_000_000 / parsed.microsPerQuarter) * beatUnit) / 4), MIN_BPM, MAX_BPM)
+    : DEFAULT_SONG.bpm;
+
+  const lowest = noteNameToMidi(PITCH_RANGE_MIN);
+  const highest = noteNameToMidi(PITCH_RANGE_MAX);
+
+  const quantized = parsed.notes
+    .map((n) => ({
+      ...n,
+      startStep: Math.round(n.start / ticksPerStep),
+      durationSteps: Math.max(1, Math.round((n.end - n.start) / ticksPerStep)),
+    }))
+    .sort((a, b) => a.startStep - b.startStep);
+
+  const lastStep = quantized.reduce((max, n) => {
+    const end = n.channel === DRUM_CHANNEL ? n.startStep + 1 : n.startStep + n.durationSteps;
+    return Math.max(max, end);
+  }, Math.round(parsed.endTick / ticksPerStep));
+  const bars = clamp(
+    Math.ceil(lastStep / stepsPerBar({ beatsPerBar, stepsPerBeat })),
+    1,
+    MAX_BARS
+  );
+
+  const song: Song = {
+    ...DEFAULT_SONG,
+    bpm,
+    stepsPerBeat,
+    beatsPerBar,
+    beatUnit,
+    bars,
+    constraints: { ...DEFAULT_SONG.constraints },
+    melody: { tracks: [] },
+    patterns: [],
+    arrangement: [...DEFAULT_SONG.arrangement],
+  };
+  const total = totalSteps(song);
+
+  const notesByChannel = new Map<number, MelodyNote[]>();
+  const hits: DrumHit[] = [];
+
+  for (const n of quantized) {
+    if (n.startStep >= total) continue;
+
+    if (n.channel === DRUM_CHANNEL) {
+      const drumId = KEY_TO_DRUM[n.key];
+      if (drumId && !hits.some((h) => h.step === n.startStep && h.drumId === drumId)) {
+        hits.push({
+          id: newId(),
+          step: n.startStep,
+          drumId,
+          velocity: fromMidiVelocity(n.velocity),
+        });
+      }
+      continue;
+    }
+
+    if (n.key < lowest || n.key > highest) continue;
+
+    const note: MelodyNote = {
+      id: newId(),
+      startStep: n.startStep,
+      durationSteps: Math.min(n.durationSteps, total - n.startStep),
+      note: midiToNoteName(n.key),
+      velocity: fromMidiVelocity(n.velocity),
+    };
+    // Same rule as addMelodyNote: a later note replaces overlapping notes of the same pitch
+    const notes = notesByChannel.get(n.channel) ?? [];
+    const kept = notes.filter(
+      (existing) =>
+        existing.note !== note.note ||
+        existing.startStep + existing.durationSteps <= note.startStep
+    );
+    notesByChannel.set(n.channel, [...kept, note]);
+  }
+
+  // One track per channel in channel order; extra channels beyond MAX_TRACKS are dropped
+  const channels = Array.from(notesByChannel.keys())
+    .sort((a, b) => a - b)
+    .slice(0, MAX_TRACKS);
+  song.melody.tracks = channels.map((channel, i) =>
+    channelToTrack(parsed.channels.get(channel), notesByChannel.get(channel) ?? [], i)
+  );
+  if (song.melody.tracks.length === 0) {
+    const [first] = Array.from(parsed.channels.values());
+    song.melody.tracks = [channelToTrack(first, [], 0)];
+  }
+
+  // The file is one linear piece, so it all lands in a single pattern
+  const notes = Object.fromEntries(
+    channels.map((channel, i) => [song.melody.tracks[i].id, notesByChannel.get(channel) ?? []])
+  );
+  song.patterns = [{ ...DEFAULT_PATTERN, notes, hits }];
+  const drumRows = fitDrumRowsToHits(song, hits);
+  if (drumRows) {
+    song.drumRows = drumRows;
+  }
+
+  const keys = Object.values(notes).flatMap((trackNotes) =>
+    trackNotes.map((n) => noteNameToMidi(n.note))
+  );
+  song.constraints.allowAccidentals = keys.some((key) => !isWhiteKey(key));
+
+  return song;
+}
+
+function channelToTrack(
+  info: ParsedChannel | undefined,
+  notes: MelodyNote[],
+  index: number
+): MelodyTrack {
+  const track: MelodyTrack = {
+    ...DEFAULT_TRACK,
+    id: index === 0 ? DEFAULT_TRACK.id : newId(),
+    name: info?.name ?? (index === 0 ? DEFAULT_TRACK.name : `Track ${index + 1}`),
+    instrument: programToInstrument(info?.program ?? null),
+    volume: info?.volume != null ? fromMidiVolume(info.volume) : DEFAULT_TRACK.volume,
+  };
+  if (notes.length > 0) {
+    const keys = notes.map((n) => noteNameToMidi(n.note));
+    track.minNote = midiToNoteName(Math.min(...keys));
+    track.maxNote = midiToNoteName(Math.max(...keys));
+  }
+  return track;
+}
@@ -0,0 +1,35 @@
+import type { Bus, Mix, Song } from "./types";
+
+export const MIN_REVERB_DECAY = 0.5;
+export const MAX_REVERB_DECAY = 6;
+export const MIN_DELAY_BEATS = 0.125;
+export const MAX_DELAY_BEATS = 4;
+export const MAX_DELAY_FEEDBACK = 0.9;
+export const MIN_FILTER_CUTOFF = 200;
+export const MAX_FILTER_CUTOFF = 20000;
+
+// Echo spacings offered by the mixer, in beats
+export const DELAY_DIVISIONS: { beats: number; label: string }[] = [
+  { beats: 0.25, label: "1/16" },
+  { beats: 0.5, label: "1/8" },
+  { beats: 0.75, label: "1/8." },
+  { beats: 1, label: "1/4" },
+  { beats: 1.5, label: "1/4." },
+  { beats: 2, label: "1/2" },
+];
+
+const DEFAULT_BUS: Bus = { volume: 1, pan: 0, muted: false, reverb: 0, delay: 0 };
+
+// What songs without mixer settings sound like: both buses dry and the filter open
+export const DEFAULT_MIX: Mix = {
+  melody: DEFAULT_BUS,
+  drums: DEFAULT_BUS,
+  reverbDecay: 2,
+  delayBeats: 0.75,
+  delayFeedback: 0.35,
+  filterCutoff: MAX_FILTER_CUTOFF,
+};
+
+export function songMix(song: Song): Mix {
+  return song.mix ?? DEFAULT_MIX;
+}
@@ -0,0 +1,563 @@
+import { describe, expect, it } from "vitest";
+import type { Constraints, MelodyNote, Song } from "./types";
+import { DEFAULT_SONG } from "./defaults";
+import {
+  addArrangementEntry,
+  addMelodyNote,
+  addPattern,
+  adjustPitchBound,
+  clearBar,
+  copySelection,
+  countStepCollisions,
+  deleteSelection,
+  duplicateBar,
+  duplicatePattern,
+  insertBars,
+  moveArrangementEntry,
+  moveSelection,
+  notesOutsideRange,
+  pasteClip,
+  removeArrangementEntry,
+  removeBar,
+  removePattern,
+  setArrangementRepeats,
+  setBarCount,
+  setBpm,
+  setConstraints,
+  setDrumHitVelocity,
+  setDrumRows,
+  setScale,
+  setStepsPerBeat,
+  setTimeSignature,
+  toggleDrumHit,
+  transposeSong,
+} from "./ops";
+
+function songWith(constraints: Partial<Constraints>): Song {
+  // Two patterns and two arrangement entries, so removing one is otherwise allowed
+  const base = addArrangementEntry(addPattern(DEFAULT_SONG, "B"), "a", 2);
+  return setConstraints(base, constraints);
+}
+
+describe("tempoLocked", () => {
+  it("keeps the tempo", () => {
+    const song = songWith({ tempoLocked: true });
+    expect(setBpm(song, 120)).toBe(song);
+  });
+
+  it("is off by default", () => {
+    expect(setBpm(songWith({}), 120).bpm).toBe(120);
+  });
+});
+
+describe("barsLocked", () => {
+  const song = songWith({ barsLocked: true });
+  const patternB = song.patterns[1].id;
+
+  it.each([
+    ["setBarCount", () => setBarCount(song, 8)],
+    ["insertBars", () => insertBars(song, 1, 2)],
+    ["removeBar", () => removeBar(song, 0)],
+    ["setTimeSignature", () => setTimeSignature(song, 3, 4)],
+    ["setStepsPerBeat", () => setStepsPerBeat(song, 2)],
+    ["addPattern", () => addPattern(song, "C")],
+    ["duplicatePattern", () => duplicatePattern(song, "a", "C")],
+    ["removePattern", () => removePattern(song, patternB)],
+    ["addArrangementEntry", () => addArrangementEntry(song, patternB)],
+    ["removeArrangementEntry", () => removeArrangementEntry(song, 1)],
+    ["setArrangementRepeats", () => setArrangementRepeats(song, 0, 3)],
+    ["moveArrangementEntry", () => moveArrangementEntry(song, 0, 1)],
+  ])("%s leaves the song unchanged", (_name, op) => {
+    expect(op()).toBe(song);
+  });
+
+  it("lets the same edits through when unlocked", () => {
+    const unlocked = songWith({ barsLocked: false });
+    expect(setBarCount(unlocked, 8).bars).toBe(8);
+    expect(addArrangementEntry(unlocked, "a").arrangement).toHaveLength(3);
+    expect(setArrangementRepeats(unlocked, 0, 3).arrangement[0].repeats).toBe(3);
+    const moved = moveArrangementEntry(unlocked, 0, 1).arrangement;
+    expect(moved.map((entry) => entry.repeats)).toEqual([2, 1]);
+  });
+});
+
+describe("drumsEnabled", () => {
+  const hit = { step: 0, drumId: "kick" } as const;
+
+  it("rejects drum edits when drums are off", () => {
+    const song = songWith({ drumsEnabled: false });
+    expect(toggleDrumHit(song, "a", hit)).toBe(song);
+    expect(setDrumRows(song, ["kick", "clap"])).toBe(song);
+  });
+
+  it("rejects velocity changes to hits placed before drums were turned off", () => {
+    const withHit = toggleDrumHit(songWith({}), "a", hit);
+    const song = setConstraints(withHit, { drumsEnabled: false });
+    const hitId = song.patterns[0].hits[0].id;
+    expect(setDrumHitVelocity(song, "a", hitId, 0.5)).toBe(song);
+  });
+
+  it("leaves hits alone in selection and bar edits when drums are off", () => {
+    const withHit = addMelodyNote(toggleDrumHit(songWith({}), "a", hit), "a", "melody", {
+      startStep: 0,
+      durationSteps: 1,
+      note: "C4",
+    });
+    const song = setConstraints(withHit, { drumsEnabled: false });
+    const { hits } = song.patterns[0];
+    const selection = { noteIds: [song.patterns[0].notes.melody[0].id], hitIds: [hits[0].id] };
+
+    const moved = moveSelection(song, "a", "melody", selection, 2, 0);
+    expect(moved.patterns[0].notes.melody[0].startStep).toBe(2);
+    expect(moved.patterns[0].hits).toEqual(hits);
+
+    const deleted = deleteSelection(song, "a", "melody", selection);
+    expect(deleted.patterns[0].notes.melody).toEqual([]);
+    expect(deleted.patterns[0].hits).toEqual(hits);
+
+    const cleared = clearBar(song, "a", 0);
+    expect(cleared.patterns[0].notes.melody).toEqual([]);
+    expect(cleared.patterns[0].hits).toEqual(hits);
+  });
+
+  it("allows drum edits when drums are on", () => {
+    const song = songWith({ drumsEnabled: true });
+    expect(toggleDrumHit(song, "a", hit).patterns[0].hits).toHaveLength(1);
+    expect(setDrumRows(song, ["kick", "clap"]).drumRows).toEqual(["clap", "kick"]);
+  });
+});
+
+describe("allowAccidentals", () => {
+  const note = { startStep: 0, durationSteps: 1, note: "C#4" };
+
+  it("rejects sharps and flats when off", () => {
+    const song = songWith({ allowAccidentals: false });
+    expect(addMelodyNote(song, "a", "melody", note)).toBe(song);
+  });
+
+  it("still allows natural notes", () => {
+    const song = songWith({ allowAccidentals: false });
+    const added = addMelodyNote(song, "a", "melody", { ...note, note: "C4" });
+    expect(added.patterns[0].notes.melody).toHaveLength(1);
+  });
+
+  it("allows sharps when on", () => {
+    const song = songWith({ allowAccidentals: true });
+    const added = addMelodyNote(song, "a", "melody", note);
+    expect(added.patterns[0].notes.melody).toHaveLength(1);
+  });
+});
+
+// The default song (4 bars of 16 steps, melody C4–C5, white keys) with notes in pattern "a"
+// and a kick on each of `kicks`
+function songWithNotes(
+  notes: { startStep: number; durationSteps: number; note: string }[],
+  kicks: number[] = []
+): Song {
+  let song = DEFAULT_SONG;
+  for (const note of notes) song = addMelodyNote(song, "a", "melody", note);
+  for (const step of kicks) song = toggleDrumHit(song, "a", { step, drumId: "kick" });
+  return song;
+}
+
+function melody(song: Song, patternIndex: number = 0): MelodyNote[] {
+  return [...(song.patterns[patternIndex].notes.melody ?? [])].sort(
+    (a, b) => a.startStep - b.startStep
+  );
+}
+
+describe("moveSelection", () => {
+  const song = songWithNotes(
+    [
+      { startStep: 0, durationSteps: 2, note: "C4" },
+      { startStep: 4, durationSteps: 2, note: "E4" },
+    ],
+    [0]
+  );
+  const [first, second] = melody(song);
+  const kick = song.patterns[0].hits[0];
+
+  it("moves notes and hits in time and up the scale", () => {
+    const selection = { noteIds: [first.id], hitIds: [kick.id] };
+    const moved = moveSelection(song, "a", "melody", selection, 2, 1);
+    expect(melody(moved).map((n) => [n.startStep, n.note])).toEqual([
+      [2, "D4"],
+      [4, "E4"],
+    ]);
+    expect(moved.patterns[0].hits.map((h) => h.step)).toEqual([2]);
+  });
+
+  it("moves nothing if any note would leave the pattern or the track", () => {
+    const selection = { noteIds: [first.id, second.id], hitIds: [] };
+    expect(moveSelection(song, "a", "melody", selection, -1, 0)).toBe(song);
+    expect(moveSelection(song, "a", "melody", selection, 0, -1)).toBe(song);
+    expect(moveSelection(song, "a", "melody", selection, 62, 0)).toBe(song);
+  });
+
+  it("replaces a same-pitch note it lands on", () => {
+    const selection = { noteIds: [first.id], hitIds: [] };
+    const moved = moveSelection(song, "a", "melody", selection, 4, 2);
+    expect(melody(moved)).toEqual([{ ...first, startStep: 4, note: "E4" }]);
+  });
+});
+
+describe("copySelection and pasteClip", () => {
+  const song = songWithNotes(
+    [
+      { startStep: 4, durationSteps: 2, note: "C4" },
+      { startStep: 8, durationSteps: 4, note: "G4" },
+    ],
+    [6]
+  );
+  const selection = {
+    noteIds: melody(song).map((n) => n.id),
+    hitIds: song.patterns[0].hits.map((h) => h.id),
+  };
+
+  it("counts the clip from the earliest selected note or hit", () => {
+    const clip = copySelection(song, "a", "melody", selection);
+    expect(clip?.steps).toBe(8);
+    expect(clip?.notes.map((n) => [n.startStep, n.note])).toEqual([
+      [0, "C4"],
+      [4, "G4"],
+    ]);
+    expect(clip?.hits.map((h) => h.step)).toEqual([2]);
+  });
+
+  it("copies nothing from an empty selection", () => {
+    expect(copySelection(song, "a", "melody", { noteIds: [], hitIds: [] })).toBeNull();
+  });
+
+  it("pastes under new ids and leaves out what falls past the end", () => {
+    const clip = copySelection(song, "a", "melody", selection);
+    if (!clip) throw new Error("nothing copied");
+    const pasted = pasteClip(song, "a", "melody", clip, 58);
+    const notes = melody(pasted);
+    expect(notes.map((n) => [n.startStep, n.durationSteps, n.note])).toEqual([
+      [4, 2, "C4"],
+      [8, 4, "G4"],
+      [58, 2, "C4"],
+      [62, 2, "G4"],
+    ]);
+    expect(notes[2].id).not.toBe(notes[0].id);
+    expect(pasted.patterns[0].hits.map((h) => h.step).sort((a, b) => a - b)).toEqual([6, 60]);
+  });
+
+  it("drops hits when drums are off", () => {
+    const clip = copySelection(song, "a", "melody", selection);
+    if (!clip) throw new Error("nothing copied");
+    const locked = setConstraints(song, { drumsEnabled: false });
+    const pasted = pasteClip(locked, "a", "melody", clip, 16);
+    expect(pasted.patterns[0].hits).toHaveLength(1);
+    expect(melody(pasted)).toHaveLength(4);
+  });
+});
+
+describe("duplicateBar", () => {
+  const song = addPattern(
+    songWithNotes(
+      [
+        { startStep: 2, durationSteps: 2, note: "C4" },
+        { startStep: 12, durationSteps: 8, note: "E4" },
+      ],
+      [0]
+    ),
+    "B"
+  );
+
+  it("inserts a copy of the bar after it and grows the song", () => {
+    // E4 is held past the bar line; the copy, and the bar it copies, stop at the bar end
+    const duplicated = duplicateBar(song, 0);
+    expect(duplicated.bars).toBe(5);
+    expect(melody(duplicated).map((n) => [n.startStep, n.durationSteps, n.note])).toEqual([
+      [2, 2, "C4"],
+      [12, 4, "E4"],
+      [18, 2, "C4"],
+      [28, 4, "E4"],
+    ]);
+    expect(duplicated.patterns[0].hits.map((h) => h.step)).toEqual([0, 16]);
+  });
+
+  it("keeps every pattern the same length", () => {
+    const duplicated = duplicateBar(song, 0);
+    expect(duplicated.patterns).toHaveLength(2);
+    expect(melody(duplicated, 1)).toEqual([]);
+  });
+
+  it("does nothing while the length is locked", () => {
+    const locked = setConstraints(song, { barsLocked: true });
+    expect(duplicateBar(locked, 0)).toBe(locked);
+  });
+});
+
+describe("clearBar", () => {
+  const song = songWithNotes(
+    [
+      { startStep: 12, durationSteps: 8, note: "C4" },
+      { startStep: 18, durationSteps: 2, note: "E4" },
+      { startStep: 32, durationSteps: 2, note: "G4" },
+    ],
+    [16, 33]
+  );
+
+  it("empties the bar and cuts notes reaching into it", () => {
+    const cleared = clearBar(song, "a", 1);
+    expect(cleared.bars).toBe(4);
+    expect(melody(cleared).map((n) => [n.startStep, n.durationSteps, n.note])).toEqual([
+      [12, 4, "C4"],
+      [32, 2, "G4"],
+    ]);
+    expect(cleared.patterns[0].hits.map((h) => h.step)).toEqual([33]);
+  });
+
+  it("only edits the given pattern", () => {
+    const withB = duplicatePattern(song, "a", "B");
+    const cleared = clearBar(withB, withB.patterns[1].id, 1);
+    expect(cleared.patterns[0]).toBe(withB.patterns[0]);
+    expect(melody(cleared, 1)).toHaveLength(2);
+  });
+});
+
+describe("insertBars and removeBar", () => {
+  const song = songWithNotes(
+    [
+      { startStep: 12, durationSteps: 8, note: "C4" },
+      { startStep: 18, durationSteps: 2, note: "E4" },
+      { startStep: 32, durationSteps: 2, note: "G4" },
+    ],
+    [16, 33]
+  );
+
+  it("moves everything from the inserted bars onward later", () => {
+    const inserted = insertBars(song, 1, 2);
+    expect(inserted.bars).toBe(6);
+    expect(melody(inserted).map((n) => [n.startStep, n.durationSteps, n.note])).toEqual([
+      [12, 8, "C4"],
+      [50, 2, "E4"],
+      [64, 2, "G4"],
+    ]);
+    expect(inserted.patterns[0].hits.map((h) => h.step)).toEqual([48, 65]);
+  });
+
+  it("drops the removed bar, cuts notes reaching into it and moves the rest earlier", () => {
+    const removed = removeBar(song, 1);
+    expect(removed.bars).toBe(3);
+    expect(melody(removed).map((n) => [n.startStep, n.durationSteps, n.note])).toEqual([
+      [12, 4, "C4"],
+      [16, 2, "G4"],
+    ]);
+    expect(removed.patterns[0].hits.map((h) => h.step)).toEqual([17]);
+  });
+});
+
+describe("setTimeSignature", () => {
+  const song = songWithNotes(
+    [
+      { startStep: 2, durationSteps: 2, note: "C4" },
+      { startStep: 14, durationSteps: 2, note: "E4" },
+      { startStep: 18, durationSteps: 2, note: "G4" },
+    ],
+    [4, 20]
+  );
+
+  it("keeps each note at its offset in the same bar and drops those past the new bar end", () => {
+    const waltz = setTimeSignature(song, 3, 4);
+    expect(waltz.bars).toBe(4);
+    expect(melody(waltz).map((n) => [n.startStep, n.durationSteps, n.note])).toEqual([
+      [2, 2, "C4"],
+      [14, 2, "G4"],
+    ]);
+    expect(waltz.patterns[0].hits.map((h) => h.step)).toEqual([4, 16]);
+  });
+
+  it("puts kept notes back where they were when the bars grow again", () => {
+    const restored = setTimeSignature(setTimeSignature(song, 3, 4), 4, 4);
+    expect(melody(restored).map((n) => [n.startStep, n.note])).toEqual([
+      [2, "C4"],
+      [18, "G4"],
+    ]);
+    expect(restored.patterns[0].hits.map((h) => h.step)).toEqual([4, 20]);
+  });
+});
+
+describe("setStepsPerBeat", () => {
+  it("rescales notes and hits without loss when every step has a place", () => {
+    const song = songWithNotes(
+      [
+        { startStep: 0, durationSteps: 2, note: "C4" },
+        { startStep: 4, durationSteps: 4, note: "E4" },
+      ],
+      [8]
+    );
+    const eighths = setStepsPerBeat(song, 2);
+    expect(melody(eighths).map((n) => [n.startStep, n.durationSteps, n.note])).toEqual([
+      [0, 1, "C4"],
+      [2, 2, "E4"],
+    ]);
+    expect(eighths.patterns[0].hits.map((h) => h.step)).toEqual([4]);
+
+    const back = setStepsPerBeat(eighths, 4);
+    expect(melody(back)).toEqual(melody(song));
+    expect(back.patterns[0].hits).toEqual(song.patterns[0].hits);
+  });
+
+  it("moves notes to the nearest step, so neighbours stay apart", () => {
+    const song = songWithNotes([
+      { startStep: 0, durationSteps: 1, note: "C4" },
+      { startStep: 1, durationSteps: 1, note: "C4" },
+    ]);
+    expect(countStepCollisions(song, 3)).toBe(0);
+    const triplets = setStepsPerBeat(song, 3);
+    expect(melody(triplets).map((n) => [n.startStep, n.durationSteps])).toEqual([
+      [0, 1],
+      [1, 1],
+    ]);
+  });
+
+  it("keeps notes inside the song when the last step rounds past the end", () => {
+    const song = songWithNotes([{ startStep: 63, durationSteps: 1, note: "C4" }]);
+    const quarters = setStepsPerBeat(song, 1);
+    expect(melody(quarters).map((n) => [n.startStep, n.durationSteps])).toEqual([[15, 1]]);
+  });
+
+  describe("when notes or hits would land on the same step", () => {
+    const song = songWithNotes(
+      [
+        { startStep: 1, durationSteps: 1, note: "C4" },
+        { startStep: 2, durationSteps: 1, note: "C4" },
+        { startStep: 2, durationSteps: 1, note: "E4" },
+      ],
+      [1, 2]
+    );
+
+    it("counts each one that would be merged", () => {
+      expect(countStepCollisions(song, 2)).toBe(2);
+    });
+
+    it("refuses the change by default", () => {
+      expect(setStepsPerBeat(song, 2)).toBe(song);
+    });
+
+    it("drops them when asked, keeping the first on each step", () => {
+      const eighths = setStepsPerBeat(song, 2, "drop");
+      expect(eighths.stepsPerBeat).toBe(2);
+      expect(melody(eighths).map((n) => [n.startStep, n.note])).toEqual([
+        [1, "C4"],
+        [1, "E4"],
+      ]);
+      expect(eighths.patterns[0].hits.map((h) => h.step)).toEqual([1]);
+    });
+  });
+});
+
+describe("transposeSong", () => {
+  const notes = ({ song }: { song: Song }) => melody(song).map((n) => n.note);
+
+  it("moves white keys by a semitone when every note lands on another white key", () => {
+    const song = songWithNotes([
+      { startStep: 0, durationSteps: 1, note: "E4" },
+      { startStep: 1, durationSteps: 1, note: "B4" },
+    ]);
+    expect(notes(transposeSong(song, 1))).toEqual(["F4", "C5"]);
+  });
+
+  it("refuses a semitone that would put a note on a black key", () => {
+    const song = songWithNotes([
+      { startStep: 0, durationSteps: 1, note: "E4" },
+      { startStep: 1, durationSteps: 1, note: "C4" },
+    ]);
+    const result = transposeSong(song, 1);
+    expect(result.song).toBe(song);
+    expect(result.refusal).toBe("note-needs-accidentals");
+  });
+
+  it("refuses moving a chosen key into one with sharps or flats", () => {
+    const song = setScale(songWithNotes([{ startStep: 0, durationSteps: 1, note: "E4" }]), {
+      root: "C",
+      mode: "major",
+    });
+    const result = transposeSong(song, 1);
+    expect(result.song).toBe(song);
+    expect(result.refusal).toBe("key-needs-accidentals");
+  });
+
+  it("refuses a note kept outside the key that would stay outside it", () => {
+    const inKey = setScale(setConstraints(DEFAULT_SONG, { allowAccidentals: true }), {
+      root: "C",
+      mode: "major",
+    });
+    const offKey = { startStep: 0, durationSteps: 1, note: "C#4" };
+    const song: Song = {
+      ...inKey,
+      patterns: [{ ...inKey.patterns[0], notes: { melody: [{ ...offKey, id: "n" }] } }],
+    };
+    const result = transposeSong(song, 2);
+    expect(result.song).toBe(song);
+    expect(result.refusal).toBe("note-off-scale");
+  });
+
+  it("refuses notes past the pitch limits unless told to fold them", () => {
+    const song = songWithNotes([{ startStep: 0, durationSteps: 1, note: "C4" }]);
+    const refused = transposeSong(song, 48);
+    expect(refused.song).toBe(song);
+    expect(refused.refusal).toBe("past-limits");
+    const folded = transposeSong(song, 48, "semitones", "fold");
+    expect(folded.refusal).toBeNull();
+    expect(notes(folded)).toHaveLength(1);
+  });
+
+  it("moves onto black keys when accidentals are allowed", () => {
+    const song = setConstraints(songWithNotes([{ startStep: 0, durationSteps: 1, note: "C4" }]), {
+      allowAccidentals: true,
+    });
+    expect(notes(transposeSong(song, 1))).toEqual(["C#4"]);
+  });
+
+  it("moves by scale steps without leaving the white keys", () => {
+    const song = songWithNotes([{ startStep: 0, durationSteps: 1, note: "E4" }]);
+    expect(notes(transposeSong(song, 1, "degrees"))).toEqual(["F4"]);
+  });
+});
+
+describe("adjustPitchBound", () => {
+  const song = songWithNotes([{ startStep: 0, durationSteps: 1, note: "C4" }]);
+
+  it("keeps notes left outside a narrower range when asked", () => {
+    const kept = adjustPitchBound(song, "melody", "min", "up", "keep");
+    expect(kept.melody.tracks[0].minNote).toBe("D4");
+    expect(notesOutsideRange(kept, "melody").map((n) => n.note)).toEqual(["C4"]);
+  });
+
+  it("deletes them otherwise", () => {
+    const trimmed = adjustPitchBound(song, "melody", "min", "up", "delete");
+    expect(trimmed.melody.tracks[0].minNote).toBe("D4");
+    expect(melody(trimmed)).toEqual([]);
+  });
+});
+
+describe("setScale", () => {
+  const C_MAJOR = { root: "C", mode: "major" } as const;
+  const A_MINOR = { root: "A", mode: "minor" } as const;
+
+  function inRange(minNote: string, maxNote: string, notes: string[]): Song {
+    let song = setScale(DEFAULT_SONG, C_MAJOR);
+    const [track] = song.melody.tracks;
+    song = { ...song, melody: { tracks: [{ ...track, minNote, maxNote }] } };
+    for (const [startStep, note] of notes.entries()) {
+      song = addMelodyNote(song, "a", "melody", { startStep, durationSteps: 1, note });
+    }
+    return song;
+  }
+
+  it("moves notes to the same degree and folds them into the track's range", () => {
+    const song = inRange("C4", "C5", ["C4", "E4"]);
+    expect(melody(setScale(song, A_MINOR)).map((n) => n.note)).toEqual(["A4", "C4"]);
+  });
+
+  it("keeps notes that no octave of the range can hold, outside it", () => {
+    const song = inRange("D4", "F4", ["D4", "E4", "F4"]);
+    const next = setScale(song, A_MINOR);
+    expect(melody(next).map((n) => n.note)).toEqual(["B3", "C4", "D4"]);
+    expect(notesOutsideRange(next, "melody").map((n) => n.note)).toEqual(["B3", "C4"]);
+  });
+});
@@ -1,14 +1,69 @@
-import type { DrumId, MelodyNote, NoteName, Song } from "./types";
+import type {
+  Assignment,
+  BeatUnit,
+  Bus,
+  BusId,
+  Clip,
+  Constraints,
+  DrumHit,
+  DrumId,
+  Groove,
+  InstrumentId,
+  MelodyNote,
+  MelodyTrack,
+  Mix,
+  NoteName,
+  Pattern,
+  Scale,
+  Selection,
+  Song,
+} from "./types";
 import { newId } from "./id";
+import { DEFAULT_TRACK } from "./defaults";
+import { sortDrumRows, visibleDrumRows } from "./drumkit";
+import {
+  MAX_DELAY_BEATS,
+  MAX_DELAY_FEEDBACK,
+  MAX_FILTER_CUTOFF,
+  MAX_REVERB_DECAY,
+  MIN_DELAY_BEATS,
+  MIN_FILTER_CUTOFF,
+  MIN_REVERB_DECAY,
+  songMix,
+} from "./mix";
+import {
+  effectiveScale,
+  isPitchAllowed,
+  nextAllowedPitch,
+  remapPitch,
+  scaleHasAccidentals,
+  transposeByDegrees,
+  transposePitchClass,
+} from "./scale";
 import {
   clamp,
   compareNotes,
+  findPattern,
+  findTrack,
+  isWhiteKey,
+  MAX_ARRANGEMENT_ENTRIES,
+  MAX_BARS,
+  MAX_BPM,
+  MAX_PATTERNS,
+  MAX_REPEATS,
+  MAX_TRACKS,
+  MIN_BPM,
+  MIN_BARS,
+  MIN_VELOCITY,
+  midiToNoteName,
   normalizeDuration,
+  normalizeNoteName,
   noteNameToMidi,
+  patternNotes,
   PITCH_RANGE_MAX,
   PITCH_RANGE_MIN,
+  stepsPerBar,
   totalSteps,
-  transposeNoteName,
 } from "./utils";
 
 function isNoteInRange(
@@ -28,14 +83,99 @@ function notesOverlap(
   return a.startStep < bEnd && b.startStep < aEnd;
 }
 
+// Puts a note in place of its old self; same-pitch notes it overlaps are removed
+function placeNote(notes: MelodyNote[], note: MelodyNote): MelodyNote[] {
+  return [
+    ...notes.filter(
+      (other) => other.id !== note.id && (other.note !== note.note || !notesOverlap(other, note))
+    ),
+    note,
+  ];
+}
+
+// Applies `update` to one track; unknown ids leave the song as it was
+function mapTrack(
+  song: Song,
+  trackId: string,
+  update: (track: MelodyTrack) => MelodyTrack
+): Song {
+  if (!findTrack(song, trackId)) {
+    return song;
+  }
+  return {
+    ...song,
+    melody: {
+      ...song.melody,
+      tracks: song.melody.tracks.map((t) => (t.id === trackId ? update(t) : t)),
+    },
+  };
+}
+
+function mapPattern(song: Song, patternId: string, update: (pattern: Pattern) => Pattern): Song {
+  if (!findPattern(song, patternId)) {
+    return song;
+  }
+  return {
+    ...song,
+    patterns: song.patterns.map((p) => (p.id === patternId ? update(p) : p)),
+  };
+}
+
+function mapTrackNotes(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  update: (notes: MelodyNote[], track: MelodyTrack) => MelodyNote[]
+): Song {
+  const track = findTrack(song, trackId);
+  if (!track) {
+    return song;
+  }
+  return mapPattern(song, patternId, (p) => ({
+    ...p,
+    notes: { ...p.notes, [trackId]: update(patternNotes(p, trackId), track) },
+  }));
+}
+
+// Same as mapTrackNotes, for every track of every pattern at once
+function mapAllNotes(
+  song: Song,
+  update: (notes: MelodyNote[], track: MelodyTrack) => MelodyNote[]
+): Song {
+  return {
+    ...song,
+    patterns: song.patterns.map((p) => ({
+      ...p,
+      notes: Object.fromEntries(
+        song.melody.tracks.map((t) => [t.id, update(patternNotes(p, t.id), t)])
+      ),
+    })),
+  };
+}
+
+function mapAllHits(song: Song, update: (hits: DrumHit[]) => DrumHit[]): Song {
+  return { ...song, patterns: song.patterns.map((p) => ({ ...p, hits: update(p.hits) })) };
+}
+
+function allNotes(song: Song): MelodyNote[] {
+  return song.patterns.flatMap((p) => song.melody.tracks.flatMap((t) => patternNotes(p, t.id)));
+}
+
 export function addMelodyNote(
   song: Song,
-  params: { startStep: number; durationSteps: number; note: NoteName }
+  patternId: string,
+  trackId: string,
+  params: { startStep: number; durationSteps: number; note: NoteName; velocity?: number }
 ): Song {
-  const { startStep, durationSteps, note } = params;
-  const { minNote, maxNote } = song.constraints;
+  const track = findTrack(song, trackId);
+  const { startStep, durationSteps } = params;
+  const note = normalizeNoteName(params.note);
 
-  if (!isNoteInRange(note, minNote, maxNote)) {
+  if (!track || !isNoteInRange(note, track.minNote, track.maxNote)) {
+    return song;
+  }
+
+  if (!isPitchAllowed(song, noteNameToMidi(note))) {
     return song;
   }
 
@@ -52,116 +192,481 @@ export function addMelodyNote(
     durationSteps: normalizedDuration,
     note,
   };
+  if (params.velocity !== undefined) {
+    newNote.velocity = clamp(params.velocity, MIN_VELOCITY, 1);
+  }
 
-  const filteredNotes = song.melody.notes.filter((existing) => {
-    if (existing.note !== note) return true;
-    return !notesOverlap(existing, newNote);
-  });
-
-  return {
-    ...song,
-    melody: {
-      ...song.melody,
-      notes: [...filteredNotes, newNote],
-    },
-  };
+  return mapTrackNotes(song, patternId, trackId, (notes) => placeNote(notes, newNote));
 }
 
-export function removeMelodyNote(song: Song, noteId: string): Song {
-  return {
-    ...song,
-    melody: {
-      ...song.melody,
-      notes: song.melody.notes.filter((n) => n.id !== noteId),
-    },
-  };
+export function removeMelodyNote(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  noteId: string
+): Song {
+  return mapTrackNotes(song, patternId, trackId, (notes) => notes.filter((n) => n.id !== noteId));
 }
 
 export function setMelodyNoteDuration(
   song: Song,
+  patternId: string,
+  trackId: string,
   noteId: string,
   durationSteps: number
 ): Song {
-  return {
-    ...song,
-    melody: {
-      ...song.melody,
-      notes: song.melody.notes.map((n) => {
-        if (n.id !== noteId) return n;
-        const normalized = normalizeDuration(song, n.startStep, durationSteps);
-        return { ...n, durationSteps: normalized };
-      }),
-    },
-  };
+  return mapTrackNotes(song, patternId, trackId, (notes) =>
+    notes.map((n) => {
+      if (n.id !== noteId) return n;
+      const normalized = normalizeDuration(song, n.startStep, durationSteps);
+      return { ...n, durationSteps: normalized };
+    })
+  );
 }
 
+// Moves a note in time and, optionally, to another pitch the track can play. Like
+// addMelodyNote, it replaces same-pitch notes it lands on.
 export function moveMelodyNote(
   song: Song,
+  patternId: string,
+  trackId: string,
   noteId: string,
-  newStartStep: number
+  newStartStep: number,
+  newNote?: NoteName
 ): Song {
   const total = totalSteps(song);
+  const track = findTrack(song, trackId);
+  const pattern = findPattern(song, patternId);
+  const current = pattern && patternNotes(pattern, trackId).find((n) => n.id === noteId);
+  if (!track || !current) {
+    return song;
+  }
+
+  const note = newNote ? normalizeNoteName(newNote) : current.note;
+  if (
+    note !== current.note &&
+    (!isNoteInRange(note, track.minNote, track.maxNote) ||
+      !isPitchAllowed(song, noteNameToMidi(note)))
+  ) {
+    return song;
+  }
+
+  const clampedStart = clamp(newStartStep, 0, total - 1);
+  const maxDuration = total - clampedStart;
+  const adjustedDuration = Math.min(current.durationSteps, maxDuration);
+  const moved: MelodyNote = {
+    ...current,
+    startStep: clampedStart,
+    durationSteps: Math.max(1, adjustedDuration),
+    note,
+  };
+  return mapTrackNotes(song, patternId, trackId, (notes) => placeNote(notes, moved));
+}
+
+// Sets both ends of a note, e.g. when trimming its front; overlaps are settled as in
+// addMelodyNote
+export function resizeMelodyNote(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  noteId: string,
+  startStep: number,
+  durationSteps: number
+): Song {
+  const pattern = findPattern(song, patternId);
+  const current = pattern && patternNotes(pattern, trackId).find((n) => n.id === noteId);
+  if (!current) {
+    return song;
+  }
+
+  const clampedStart = clamp(startStep, 0, totalSteps(song) - 1);
+  const resized: MelodyNote = {
+    ...current,
+    startStep: clampedStart,
+    durationSteps: normalizeDuration(song, clampedStart, durationSteps),
+  };
+  return mapTrackNotes(song, patternId, trackId, (notes) => placeNote(notes, resized));
+}
+
+export function setMelodyNoteVelocity(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  noteId: string,
+  velocity: number
+): Song {
+  const clamped = clamp(velocity, MIN_VELOCITY, 1);
+  return mapTrackNotes(song, patternId, trackId, (notes) =>
+    notes.map((n) => (n.id === noteId ? { ...n, velocity: clamped } : n))
+  );
+}
+
+export function addTrack(
+  song: Song,
+  params: { name: string; instrument?: InstrumentId; minNote?: NoteName; maxNote?: NoteName }
+): Song {
+  if (song.melody.tracks.length >= MAX_TRACKS) {
+    return song;
+  }
+  const track: MelodyTrack = {
+    ...DEFAULT_TRACK,
+    ...params,
+    id: newId(),
+  };
+  return { ...song, melody: { ...song.melody, tracks: [...song.melody.tracks, track] } };
+}
+
+// A song always keeps at least one track; the track's notes go with it in every pattern
+export function removeTrack(song: Song, trackId: string): Song {
+  if (song.melody.tracks.length <= 1 || !findTrack(song, trackId)) {
+    return song;
+  }
+  return mapAllNotes(
+    {
+      ...song,
+      melody: { ...song.melody, tracks: song.melody.tracks.filter((t) => t.id !== trackId) },
+    },
+    (notes) => notes
+  );
+}
+
+export type TrackSettings = Pick<MelodyTrack, "name" | "instrument" | "muted" | "solo" | "volume">;
+
+export function updateTrack(song: Song, trackId: string, patch: Partial<TrackSettings>): Song {
+  return mapTrack(song, trackId, (t) => {
+    const next = { ...t, ...patch };
+    next.volume = clamp(next.volume, 0, 1);
+    return next;
+  });
+}
+
+// Patterns and the arrangement make up the song's structure, which barsLocked fixes too
+export function addPattern(song: Song, name: string): Song {
+  if (song.constraints.barsLocked || song.patterns.length >= MAX_PATTERNS) {
+    return song;
+  }
+  const pattern: Pattern = { id: newId(), name, notes: {}, hits: [] };
+  return { ...song, patterns: [...song.patterns, pattern] };
+}
+
+// Copies a pattern's notes and hits under fresh ids, e.g. to write a variation of a section
+export function duplicatePattern(song: Song, patternId: string, name: string): Song {
+  const source = findPattern(song, patternId);
+  if (song.constraints.barsLocked || !source || song.patterns.length >= MAX_PATTERNS) {
+    return song;
+  }
+  const pattern: Pattern = {
+    id: newId(),
+    name,
+    notes: Object.fromEntries(
+      Object.entries(source.notes).map(([trackId, notes]) => [
+        trackId,
+        notes.map((n) => ({ ...n, id: newId() })),
+      ])
+    ),
+    hits: source.hits.map((h) => ({ ...h, id: newId() })),
+  };
+  return { ...song, patterns: [...song.patterns, pattern] };
+}
+
+export function renamePattern(song: Song, patternId: string, name: string): Song {
+  return mapPattern(song, patternId, (p) => ({ ...p, name }));
+}
 
+// A song always keeps at least one pattern; its arrangement entries go with it, and an
+// arrangement left empty plays the first remaining pattern once
+export function removePattern(song: Song, patternId: string): Song {
+  if (
+    song.constraints.barsLocked ||
+    song.patterns.length <= 1 ||
+    !findPattern(song, patternId)
+  ) {
+    return song;
+  }
+  const patterns = song.patterns.filter((p) => p.id !== patternId);
+  const arrangement = song.arrangement.filter((e) => e.patternId !== patternId);
+  if (arrangement.length === 0) {
+    arrangement.push({ patternId: patterns[0].id, repeats: 1 });
+  }
+  return { ...song, patterns, arrangement };
+}
+
+export function addArrangementEntry(song: Song, patternId: string, repeats: number = 1): Song {
+  if (
+    song.constraints.barsLocked ||
+    !findPattern(song, patternId) ||
+    song.arrangement.length >= MAX_ARRANGEMENT_ENTRIES
+  ) {
+    return song;
+  }
   return {
     ...song,
-    melody: {
-      ...song.melody,
-      notes: song.melody.notes.map((n) => {
-        if (n.id !== noteId) return n;
-        const clampedStart = clamp(newStartStep, 0, total - 1);
-        const maxDuration = total - clampedStart;
-        const adjustedDuration = Math.min(n.durationSteps, maxDuration);
-        return {
-          ...n,
-          startStep: clampedStart,
-          durationSteps: Math.max(1, adjustedDuration),
-        };
-      }),
-    },
+    arrangement: [...song.arrangement, { patternId, repeats: clamp(repeats, 1, MAX_REPEATS) }],
+  };
+}
+
+// The arrangement always keeps at least one entry
+export function removeArrangementEntry(song: Song, index: number): Song {
+  if (
+    song.constraints.barsLocked ||
+    song.arrangement.length <= 1 ||
+    index < 0 ||
+    index >= song.arrangement.length
+  ) {
+    return song;
+  }
+  return { ...song, arrangement: song.arrangement.filter((_, i) => i !== index) };
+}
+
+export function setArrangementRepeats(song: Song, index: number, repeats: number): Song {
+  const entry = song.arrangement[index];
+  if (song.constraints.barsLocked || !entry) {
+    return song;
+  }
+  const clamped = clamp(Math.round(repeats), 1, MAX_REPEATS);
+  return {
+    ...song,
+    arrangement: song.arrangement.map((e, i) => (i === index ? { ...e, repeats: clamped } : e)),
   };
 }
 
+export function moveArrangementEntry(song: Song, from: number, to: number): Song {
+  const { arrangement } = song;
+  if (
+    song.constraints.barsLocked ||
+    from === to ||
+    !arrangement[from] ||
+    to < 0 ||
+    to >= arrangement.length
+  ) {
+    return song;
+  }
+  const next = arrangement.filter((_, i) => i !== from);
+  next.splice(to, 0, arrangement[from]);
+  return { ...song, arrangement: next };
+}
+
+export function setDrumHitVelocity(
+  song: Song,
+  patternId: string,
+  hitId: string,
+  velocity: number
+): Song {
+  if (!song.constraints.drumsEnabled) {
+    return song;
+  }
+  const clamped = clamp(velocity, MIN_VELOCITY, 1);
+  return mapPattern(song, patternId, (p) => ({
+    ...p,
+    hits: p.hits.map((h) => (h.id === hitId ? { ...h, velocity: clamped } : h)),
+  }));
+}
+
 export function toggleDrumHit(
   song: Song,
+  patternId: string,
   params: { step: number; drumId: DrumId }
 ): Song {
   const { step, drumId } = params;
   const total = totalSteps(song);
 
+  if (!song.constraints.drumsEnabled || !visibleDrumRows(song).includes(drumId)) {
+    return song;
+  }
+
   if (step < 0 || step >= total) {
     return song;
   }
 
-  const existingIndex = song.drums.hits.findIndex(
-    (h) => h.step === step && h.drumId === drumId
-  );
+  return mapPattern(song, patternId, (p) => {
+    const existingIndex = p.hits.findIndex((h) => h.step === step && h.drumId === drumId);
+    if (existingIndex >= 0) {
+      return { ...p, hits: p.hits.filter((_, i) => i !== existingIndex) };
+    }
+    return { ...p, hits: [...p.hits, { id: newId(), step, drumId }] };
+  });
+}
 
-  if (existingIndex >= 0) {
-    return {
-      ...song,
-      drums: {
-        ...song.drums,
-        hits: song.drums.hits.filter((_, i) => i !== existingIndex),
-      },
-    };
+// Moves the selected notes and hits `steps` later and the notes `degrees` up the scale.
+// Nothing moves if any of them would leave the pattern or the track's pitches; moved notes
+// replace same-pitch notes they land on, as in addMelodyNote. Hits stay put while drums are
+// turned off.
+export function moveSelection(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  selection: Selection,
+  steps: number,
+  degrees: number
+): Song {
+  const track = findTrack(song, trackId);
+  const pattern = findPattern(song, patternId);
+  if (!track || !pattern || (steps === 0 && degrees === 0)) {
+    return song;
+  }
+
+  const total = totalSteps(song);
+  const scale = effectiveScale(song);
+  const notes = patternNotes(pattern, trackId);
+  const moved: MelodyNote[] = [];
+  for (const n of notes) {
+    if (!selection.noteIds.includes(n.id)) continue;
+    const startStep = n.startStep + steps;
+    const midi = transposeByDegrees(noteNameToMidi(n.note), degrees, scale);
+    if (startStep < 0 || startStep + n.durationSteps > total) return song;
+    if (!isPitchAllowed(song, midi)) return song;
+    const note = midiToNoteName(midi);
+    if (!isNoteInRange(note, track.minNote, track.maxNote)) return song;
+    moved.push({ ...n, startStep, note });
+  }
+
+  const hitIds = selectedHitIds(song, selection);
+  const movedHits: DrumHit[] = [];
+  for (const h of pattern.hits) {
+    if (!hitIds.includes(h.id)) continue;
+    if (h.step + steps < 0 || h.step + steps >= total) return song;
+    movedHits.push({ ...h, step: h.step + steps });
   }
 
+  const kept = notes.filter(
+    (n) =>
+      !selection.noteIds.includes(n.id) &&
+      !moved.some((m) => m.note === n.note && notesOverlap(m, n))
+  );
+  const keptHits = pattern.hits.filter(
+    (h) =>
+      !hitIds.includes(h.id) &&
+      !movedHits.some((m) => m.step === h.step && m.drumId === h.drumId)
+  );
+  return mapPattern(song, patternId, (p) => ({
+    ...p,
+    notes: { ...p.notes, [trackId]: [...kept, ...moved] },
+    hits: [...keptHits, ...movedHits],
+  }));
+}
+
+export function deleteSelection(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  selection: Selection
+): Song {
+  const deleted = mapTrackNotes(song, patternId, trackId, (notes) =>
+    notes.filter((n) => !selection.noteIds.includes(n.id))
+  );
+  const hitIds = selectedHitIds(song, selection);
+  return mapPattern(deleted, patternId, (p) => ({
+    ...p,
+    hits: p.hits.filter((h) => !hitIds.includes(h.id)),
+  }));
+}
+
+// Hits are out of reach while drums are turned off, selected or not
+function selectedHitIds(song: Song, selection: Selection): string[] {
+  return song.constraints.drumsEnabled ? selection.hitIds : [];
+}
+
+// Copies the selection, counting steps from the earliest selected note or hit
+export function copySelection(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  selection: Selection
+): Clip | null {
+  const pattern = findPattern(song, patternId);
+  if (!pattern) return null;
+  const notes = patternNotes(pattern, trackId).filter((n) => selection.noteIds.includes(n.id));
+  const hits = pattern.hits.filter((h) => selection.hitIds.includes(h.id));
+  if (notes.length === 0 && hits.length === 0) return null;
+
+  const start = Math.min(...notes.map((n) => n.startStep), ...hits.map((h) => h.step));
+  const end = Math.max(
+    ...notes.map((n) => n.startStep + n.durationSteps),
+    ...hits.map((h) => h.step + 1)
+  );
   return {
-    ...song,
-    drums: {
-      ...song.drums,
-      hits: [...song.drums.hits, { id: newId(), step, drumId }],
-    },
+    steps: end - start,
+    notes: notes.map((n) => ({ ...n, startStep: n.startStep - start })),
+    hits: hits.map((h) => ({ ...h, step: h.step - start })),
   };
 }
 
+// Pastes a clip from `atStep` under fresh ids. Notes follow addMelodyNote's rules, hits land
+// on rows the song shows; whatever falls past the end of the pattern is left out.
+export function pasteClip(
+  song: Song,
+  patternId: string,
+  trackId: string,
+  clip: Clip,
+  atStep: number
+): Song {
+  if (!findPattern(song, patternId)) {
+    return song;
+  }
+
+  const total = totalSteps(song);
+  let result = song;
+  for (const n of clip.notes) {
+    const startStep = atStep + n.startStep;
+    if (startStep >= total) continue;
+    result = addMelodyNote(result, patternId, trackId, {
+      startStep,
+      durationSteps: n.durationSteps,
+      note: n.note,
+      velocity: n.velocity,
+    });
+  }
+
+  const rows = song.constraints.drumsEnabled ? visibleDrumRows(song) : [];
+  const hits = clip.hits
+    .map((h) => ({ ...h, id: newId(), step: atStep + h.step }))
+    .filter((h) => h.step >= 0 && h.step < total && rows.includes(h.drumId));
+  return mapPattern(result, patternId, (p) => ({
+    ...p,
+    hits: [
+      ...p.hits.filter((h) => !hits.some((c) => c.step === h.step && c.drumId === h.drumId)),
+      ...hits,
+    ],
+  }));
+}
+
+// Chooses which drum rows the grid shows; hits on rows being hidden are deleted
+export function setDrumRows(song: Song, rows: DrumId[]): Song {
+  if (!song.constraints.drumsEnabled) {
+    return song;
+  }
+  const drumRows = sortDrumRows(rows);
+  return mapAllHits({ ...song, drumRows }, (hits) =>
+    hits.filter((h) => drumRows.includes(h.drumId))
+  );
+}
+
+// Notes kept in the track (in any pattern) while its visible range doesn't cover them
+export function notesOutsideRange(song: Song, trackId: string): MelodyNote[] {
+  const track = findTrack(song, trackId);
+  if (!track) return [];
+  return song.patterns
+    .flatMap((p) => patternNotes(p, trackId))
+    .filter((n) => !isNoteInRange(n.note, track.minNote, track.maxNote));
+}
+
+export type OutOfRangePolicy = "delete" | "keep";
+
+// "delete" only removes notes this change pushes out; notes kept earlier stay put.
 export function adjustPitchBound(
   song: Song,
+  trackId: string,
   bound: "min" | "max",
-  direction: "up" | "down"
+  direction: "up" | "down",
+  outOfRange: OutOfRangePolicy = "delete"
 ): Song {
-  const { minNote, maxNote, allowAccidentals } = song.constraints;
-  const semitones = direction === "up" ? 1 : -1;
+  const track = findTrack(song, trackId);
+  if (!track) {
+    return song;
+  }
+
+  const { minNote, maxNote } = track;
+  const step = direction === "up" ? 1 : -1;
 
   const minMidi = noteNameToMidi(PITCH_RANGE_MIN);
   const maxMidi = noteNameToMidi(PITCH_RANGE_MAX);
@@ -170,8 +675,12 @@ export function adjustPitchBound(
   let newMaxNote = maxNote;
 
   if (bound === "min") {
-    const transposed = transposeNoteName(minNote, semitones, allowAccidentals);
-    const transposedMidi = noteNameToMidi(transposed);
+    // Step to the next pitch the grid can show (scale degree or key)
+    const transposedMidi = nextAllowedPitch(song, noteNameToMidi(minNote), step);
+    if (transposedMidi === null) {
+      return song;
+    }
+    const transposed = midiToNoteName(transposedMidi);
 
     // Guard: stay within absolute bounds and don't exceed maxNote
     if (transposedMidi < minMidi || transposedMidi > maxMidi) {
@@ -182,8 +691,11 @@ export function adjustPitchBound(
     }
     newMinNote = transposed;
   } else {
-    const transposed = transposeNoteName(maxNote, semitones, allowAccidentals);
-    const transposedMidi = noteNameToMidi(transposed);
+    const transposedMidi = nextAllowedPitch(song, noteNameToMidi(maxNote), step);
+    if (transposedMidi === null) {
+      return song;
+    }
+    const transposed = midiToNoteName(transposedMidi);
 
     // Guard: stay within absolute bounds and don't go below minNote
     if (transposedMidi < minMidi || transposedMidi > maxMidi) {
@@ -195,21 +707,557 @@ export function adjustPitchBound(
     newMaxNote = transposed;
   }
 
-  // Remove notes that are now out of range
-  const filteredNotes = song.melody.notes.filter((note) =>
-    isNoteInRange(note.note, newMinNote, newMaxNote)
+  const resized = mapTrack(song, trackId, (t) => ({
+    ...t,
+    minNote: newMinNote,
+    maxNote: newMaxNote,
+  }));
+  if (outOfRange === "keep") {
+    return resized;
+  }
+  return mapAllNotes(resized, (notes, t) =>
+    t.id !== trackId
+      ? notes
+      : notes.filter(
+          (note) =>
+            isNoteInRange(note.note, newMinNote, newMaxNote) ||
+            !isNoteInRange(note.note, minNote, maxNote)
+        )
+  );
+}
+
+export type TransposeUnit = "semitones" | "degrees";
+export type TransposeOverflow = "refuse" | "fold";
+// Why a transpose left the song as it was
+export type TransposeRefusal =
+  | "key-needs-accidentals"
+  | "note-needs-accidentals"
+  | "note-off-scale"
+  | "past-limits";
+
+function transposePitch(song: Song, midi: number, amount: number, unit: TransposeUnit): number {
+  if (unit === "degrees") {
+    return transposeByDegrees(midi, amount, effectiveScale(song));
+  }
+  return midi + amount;
+}
+
+function foldIntoRange(midi: number, minMidi: number, maxMidi: number): number | null {
+  while (midi > maxMidi) midi -= 12;
+  while (midi < minMidi) midi += 12;
+  return midi <= maxMidi ? midi : null;
+}
+
+// How many notes a transpose would push past PITCH_RANGE_MIN/MAX
+export function countTransposeOverflow(song: Song, amount: number, unit: TransposeUnit): number {
+  const minMidi = noteNameToMidi(PITCH_RANGE_MIN);
+  const maxMidi = noteNameToMidi(PITCH_RANGE_MAX);
+  return allNotes(song).filter((n) => {
+    const midi = transposePitch(song, noteNameToMidi(n.note), amount, unit);
+    return midi < minMidi || midi > maxMidi;
+  }).length;
+}
+
+// Shifts every note and each track's visible range together. Semitone shifts carry the
+// key along; degree shifts stay in the current scale. Notes pushed past the absolute
+// pitch limits either refuse the whole transpose or are folded back by octaves. A refused
+// transpose returns the song unchanged along with the first reason found.
+export function transposeSong(
+  song: Song,
+  amount: number,
+  unit: TransposeUnit = "semitones",
+  overflow: TransposeOverflow = "refuse"
+): { song: Song; refusal: TransposeRefusal | null } {
+  if (amount === 0) {
+    return { song, refusal: null };
+  }
+
+  const limitMin = noteNameToMidi(PITCH_RANGE_MIN);
+  const limitMax = noteNameToMidi(PITCH_RANGE_MAX);
+  const { allowAccidentals } = song.constraints;
+
+  const next: Song = { ...song };
+  if (unit === "semitones") {
+    // A chosen key moves with the notes; without one the notes are only held to white
+    // keys, which the per-note check below covers
+    if (song.scale) {
+      const shiftedKey = { ...song.scale, root: transposePitchClass(song.scale.root, amount) };
+      if (!allowAccidentals && scaleHasAccidentals(shiftedKey)) {
+        return { song, refusal: "key-needs-accidentals" };
+      }
+      next.scale = shiftedKey;
+    }
+  }
+
+  const tracks = song.melody.tracks.map((track) => {
+    // The range slides with the notes until it meets an absolute limit
+    let minMidi = transposePitch(song, noteNameToMidi(track.minNote), amount, unit);
+    let maxMidi = transposePitch(song, noteNameToMidi(track.maxNote), amount, unit);
+    if (maxMidi > limitMax) {
+      minMidi -= maxMidi - limitMax;
+      maxMidi = limitMax;
+    }
+    if (minMidi < limitMin) {
+      maxMidi = Math.min(limitMax, maxMidi + limitMin - minMidi);
+      minMidi = limitMin;
+    }
+    if (!allowAccidentals) {
+      if (!isWhiteKey(minMidi)) minMidi++;
+      if (!isWhiteKey(maxMidi)) maxMidi--;
+      if (maxMidi < minMidi) maxMidi = minMidi;
+    }
+    return { ...track, minNote: midiToNoteName(minMidi), maxNote: midiToNoteName(maxMidi) };
+  });
+
+  let refusal: TransposeRefusal | null = null;
+  const transposed = mapAllNotes({ ...next, melody: { ...song.melody, tracks } }, (notes, track) =>
+    notes.map((n) => {
+      let midi = transposePitch(song, noteNameToMidi(n.note), amount, unit);
+      if (midi < limitMin || midi > limitMax) {
+        if (overflow === "refuse") {
+          refusal ??= "past-limits";
+          return n;
+        }
+        const minMidi = noteNameToMidi(track.minNote);
+        const maxMidi = noteNameToMidi(track.maxNote);
+        midi =
+          foldIntoRange(midi, minMidi, maxMidi) ?? foldIntoRange(midi, limitMin, limitMax) ?? midi;
+      }
+      if (!isPitchAllowed(next, midi)) {
+        refusal ??=
+          !allowAccidentals && !isWhiteKey(midi) ? "note-needs-accidentals" : "note-off-scale";
+        return n;
+      }
+      return { ...n, note: midiToNoteName(midi) };
+    })
+  );
+
+  return refusal ? { song, refusal } : { song: settleTimeline(transposed), refusal: null };
+}
+
+// Fit notes and hits into the song's current length after a structural change.
+// Same-pitch overlaps are cut at the later note's start, matching addMelodyNote.
+function settleTimeline(song: Song): Song {
+  const total = totalSteps(song);
+
+  const settleNotes = (trackNotes: MelodyNote[]): MelodyNote[] => {
+    const notes = trackNotes
+      .filter((n) => n.startStep >= 0 && n.startStep < total)
+      .map((n) => ({ ...n, durationSteps: clamp(n.durationSteps, 1, total - n.startStep) }))
+      .sort((a, b) => a.startStep - b.startStep);
+
+    const settled: MelodyNote[] = [];
+    for (const note of notes) {
+      const previous = settled.findLast((n) => n.note === note.note);
+      if (previous && previous.startStep === note.startStep) continue;
+      if (previous && previous.startStep + previous.durationSteps > note.startStep) {
+        previous.durationSteps = note.startStep - previous.startStep;
+      }
+      settled.push(note);
+    }
+    return settled;
+  };
+
+  const settleHits = (patternHits: DrumHit[]): DrumHit[] => {
+    const hits: DrumHit[] = [];
+    for (const hit of patternHits) {
+      if (hit.step < 0 || hit.step >= total) continue;
+      if (hits.some((h) => h.step === hit.step && h.drumId === hit.drumId)) continue;
+      hits.push(hit);
+    }
+    return hits;
+  };
+
+  return mapAllHits(mapAllNotes(song, settleNotes), settleHits);
+}
+
+export function insertBars(song: Song, atBar: number, count: number = 1): Song {
+  const added = Math.min(count, MAX_BARS - song.bars);
+  if (song.constraints.barsLocked || added <= 0 || atBar < 0 || atBar > song.bars) {
+    return song;
+  }
+
+  const barSteps = stepsPerBar(song);
+  const insertStep = atBar * barSteps;
+  const shift = added * barSteps;
+
+  const shifted = mapAllNotes({ ...song, bars: song.bars + added }, (notes) =>
+    notes.map((n) => (n.startStep >= insertStep ? { ...n, startStep: n.startStep + shift } : n))
+  );
+  return mapAllHits(shifted, (hits) =>
+    hits.map((h) => (h.step >= insertStep ? { ...h, step: h.step + shift } : h))
   );
+}
+
+export function removeBar(song: Song, barIndex: number): Song {
+  if (song.constraints.barsLocked || song.bars <= MIN_BARS || barIndex < 0 || barIndex >= song.bars) {
+    return song;
+  }
+
+  const barSteps = stepsPerBar(song);
+  const barStart = barIndex * barSteps;
+  const barEnd = barStart + barSteps;
+
+  const removeFromNotes = (trackNotes: MelodyNote[]): MelodyNote[] => {
+    const notes: MelodyNote[] = [];
+    for (const n of trackNotes) {
+      if (n.startStep >= barEnd) {
+        notes.push({ ...n, startStep: n.startStep - barSteps });
+      } else if (n.startStep < barStart) {
+        // Notes reaching into the removed bar are cut at its start
+        notes.push({ ...n, durationSteps: Math.min(n.durationSteps, barStart - n.startStep) });
+      }
+    }
+    return notes;
+  };
+
+  const removeFromHits = (patternHits: DrumHit[]): DrumHit[] => {
+    const hits: DrumHit[] = [];
+    for (const h of patternHits) {
+      if (h.step >= barEnd) {
+        hits.push({ ...h, step: h.step - barSteps });
+      } else if (h.step < barStart) {
+        hits.push(h);
+      }
+    }
+    return hits;
+  };
+
+  return mapAllHits(mapAllNotes({ ...song, bars: song.bars - 1 }, removeFromNotes), removeFromHits);
+}
+
+// Inserts a copy of a bar right after it. Bars are shared by every pattern, so the song
+// grows everywhere and every pattern gets its own bar copied; clearBar only edits content
+// and so keeps to one pattern.
+export function duplicateBar(song: Song, barIndex: number): Song {
+  if (barIndex < 0 || barIndex >= song.bars) {
+    return song;
+  }
+  const inserted = insertBars(song, barIndex + 1);
+  if (inserted === song) {
+    return song;
+  }
 
+  const barSteps = stepsPerBar(song);
+  const barStart = barIndex * barSteps;
+  const barEnd = barStart + barSteps;
+  const inBar = (n: MelodyNote) => n.startStep >= barStart && n.startStep < barEnd;
+  // A note held across the bar line stops there, so the copy sounds like the bar itself
+  const cut = (n: MelodyNote) => ({
+    ...n,
+    durationSteps: Math.min(n.durationSteps, barEnd - n.startStep),
+  });
+  const copies = (trackNotes: MelodyNote[]): MelodyNote[] => [
+    ...trackNotes.map((n) => (inBar(n) ? cut(n) : n)),
+    ...trackNotes
+      .filter(inBar)
+      .map((n) => ({ ...cut(n), id: newId(), startStep: n.startStep + barSteps })),
+  ];
+  const copied = mapAllHits(mapAllNotes(inserted, copies), (hits) => [
+    ...hits,
+    ...hits
+      .filter((h) => h.step >= barStart && h.step < barEnd)
+      .map((h) => ({ ...h, id: newId(), step: h.step + barSteps })),
+  ]);
+  // A note held into the bar from before is cut where the same pitch starts in the copy
+  return settleTimeline(copied);
+}
+
+// Empties one bar of a pattern; notes reaching into it from before are cut at its start.
+// Hits are kept while drums are turned off.
+export function clearBar(song: Song, patternId: string, barIndex: number): Song {
+  if (barIndex < 0 || barIndex >= song.bars) {
+    return song;
+  }
+
+  const barSteps = stepsPerBar(song);
+  const barStart = barIndex * barSteps;
+  const barEnd = barStart + barSteps;
+  return mapPattern(song, patternId, (p) => ({
+    ...p,
+    notes: Object.fromEntries(
+      Object.entries(p.notes).map(([id, notes]) => [
+        id,
+        notes
+          .filter((n) => n.startStep < barStart || n.startStep >= barEnd)
+          .map((n) =>
+            n.startStep < barStart
+              ? { ...n, durationSteps: Math.min(n.durationSteps, barStart - n.startStep) }
+              : n
+          ),
+      ])
+    ),
+    hits: song.constraints.drumsEnabled
+      ? p.hits.filter((h) => h.step < barStart || h.step >= barEnd)
+      : p.hits,
+  }));
+}
+
+export function setBarCount(song: Song, bars: number): Song {
+  if (song.constraints.barsLocked) {
+    return song;
+  }
+
+  let result = song;
+  while (result.bars < bars && result.bars < MAX_BARS) {
+    result = insertBars(result, result.bars);
+  }
+  while (result.bars > bars && result.bars > MIN_BARS) {
+    result = removeBar(result, result.bars - 1);
+  }
+  return result;
+}
+
+// Keeps each note in the same bar at the same offset; offsets past the new bar length are dropped.
+export function setTimeSignature(song: Song, beatsPerBar: number, beatUnit: BeatUnit): Song {
+  if (
+    song.constraints.barsLocked ||
+    beatsPerBar < 1 ||
+    (beatsPerBar === song.beatsPerBar && beatUnit === song.beatUnit)
+  ) {
+    return song;
+  }
+
+  const oldBar = stepsPerBar(song);
+  const newBar = beatsPerBar * song.stepsPerBeat;
+  const remap = (step: number): number | null => {
+    const offset = step % oldBar;
+    return offset < newBar ? Math.floor(step / oldBar) * newBar + offset : null;
+  };
+
+  const remapped = mapAllNotes({ ...song, beatsPerBar, beatUnit }, (trackNotes) => {
+    const notes: MelodyNote[] = [];
+    for (const n of trackNotes) {
+      const startStep = remap(n.startStep);
+      if (startStep !== null) notes.push({ ...n, startStep });
+    }
+    return notes;
+  });
+  return settleTimeline(
+    mapAllHits(remapped, (patternHits) => {
+      const hits: DrumHit[] = [];
+      for (const h of patternHits) {
+        const step = remap(h.step);
+        if (step !== null) hits.push({ ...h, step });
+      }
+      return hits;
+    })
+  );
+}
+
+export type StepCollisions = "refuse" | "drop";
+
+// Moves every note and hit to the nearest step at the new subdivision, counting those that
+// land on a step already taken by the same pitch or drum
+function rescaleSteps(song: Song, stepsPerBeat: number): { song: Song; collisions: number } {
+  const ratio = stepsPerBeat / song.stepsPerBeat;
+  const rescaled: Song = { ...song, stepsPerBeat };
+  const last = totalSteps(rescaled) - 1;
+  const nearest = (step: number) => Math.min(Math.round(step * ratio), last);
+  let collisions = 0;
+
+  const withNotes = mapAllNotes(rescaled, (notes) => {
+    const taken = new Set<string>();
+    return notes.map((n) => {
+      const startStep = nearest(n.startStep);
+      const endStep = Math.round((n.startStep + n.durationSteps) * ratio);
+      const key = `${n.note}@${startStep}`;
+      if (taken.has(key)) collisions++;
+      taken.add(key);
+      return { ...n, startStep, durationSteps: Math.max(1, endStep - startStep) };
+    });
+  });
+  const withHits = mapAllHits(withNotes, (hits) => {
+    const taken = new Set<string>();
+    return hits.map((h) => {
+      const step = nearest(h.step);
+      const key = `${h.drumId}@${step}`;
+      if (taken.has(key)) collisions++;
+      taken.add(key);
+      return { ...h, step };
+    });
+  });
+  return { song: withHits, collisions };
+}
+
+// How many notes and hits a subdivision change would merge into another on the same step
+export function countStepCollisions(song: Song, stepsPerBeat: number): number {
+  if (stepsPerBeat < 1 || stepsPerBeat === song.stepsPerBeat) {
+    return 0;
+  }
+  return rescaleSteps(song, stepsPerBeat).collisions;
+}
+
+// Rescales positions and durations so notes stay on the same beats. Notes and hits that
+// would land on a step already taken by the same pitch or drum either refuse the whole
+// change or are dropped.
+export function setStepsPerBeat(
+  song: Song,
+  stepsPerBeat: number,
+  collisions: StepCollisions = "refuse"
+): Song {
+  if (song.constraints.barsLocked || stepsPerBeat < 1 || stepsPerBeat === song.stepsPerBeat) {
+    return song;
+  }
+
+  const rescaled = rescaleSteps(song, stepsPerBeat);
+  if (rescaled.collisions > 0 && collisions === "refuse") {
+    return song;
+  }
+  return settleTimeline(rescaled.song);
+}
+
+// Choosing no groove (undefined) plays the song straight again
+export function setGroove(song: Song, groove: Groove | undefined): Song {
+  if (!groove) {
+    const rest = { ...song };
+    delete rest.groove;
+    return rest;
+  }
+  return { ...song, groove: { ...groove, amount: clamp(groove.amount, 0, 1) } };
+}
+
+export function setVolume(song: Song, volume: number): Song {
+  return { ...song, volume: clamp(volume, 0, 1) };
+}
+
+export function updateBus(song: Song, busId: BusId, patch: Partial<Bus>): Song {
+  const mix = songMix(song);
+  const next = { ...mix[busId], ...patch };
+  next.volume = clamp(next.volume, 0, 1);
+  next.pan = clamp(next.pan, -1, 1);
+  next.reverb = clamp(next.reverb, 0, 1);
+  next.delay = clamp(next.delay, 0, 1);
+  return { ...song, mix: { ...mix, [busId]: next } };
+}
+
+export type MixEffects = Omit<Mix, BusId>;
+
+export function updateMixEffects(song: Song, patch: Partial<MixEffects>): Song {
+  const next = { ...songMix(song), ...patch };
+  next.reverbDecay = clamp(next.reverbDecay, MIN_REVERB_DECAY, MAX_REVERB_DECAY);
+  next.delayBeats = clamp(next.delayBeats, MIN_DELAY_BEATS, MAX_DELAY_BEATS);
+  next.delayFeedback = clamp(next.delayFeedback, 0, MAX_DELAY_FEEDBACK);
+  next.filterCutoff = clamp(next.filterCutoff, MIN_FILTER_CUTOFF, MAX_FILTER_CUTOFF);
+  return { ...song, mix: next };
+}
+
+export function setBpm(song: Song, bpm: number): Song {
+  if (song.constraints.tempoLocked) {
+    return song;
+  }
+  return { ...song, bpm: clamp(bpm, MIN_BPM, MAX_BPM) };
+}
+
+// Teacher-only: edits the locks themselves, so it is not subject to them
+export function setConstraints(song: Song, patch: Partial<Constraints>): Song {
   return {
     ...song,
-    constraints: {
-      ...song.constraints,
-      minNote: newMinNote,
-      maxNote: newMaxNote,
-    },
-    melody: {
-      ...song.melody,
-      notes: filteredNotes,
-    },
+    constraints: { ...song.constraints, ...patch },
   };
 }
+
+export function setAssignment(song: Song, assignment: Assignment | undefined): Song {
+  if (!assignment) {
+    const rest = { ...song };
+    delete rest.assignment;
+    return rest;
+  }
+  return { ...song, assignment };
+}
+
+export type AccidentalPolicy = "snap-up" | "snap-down" | "delete";
+
+// Teacher-only. Turning accidentals off moves every sharp/flat note to a natural
+// (or deletes it), and pulls each track's range onto naturals so no row is orphaned.
+export function setAllowAccidentals(
+  song: Song,
+  allowAccidentals: boolean,
+  policy: AccidentalPolicy = "snap-down"
+): Song {
+  if (allowAccidentals === song.constraints.allowAccidentals) {
+    return song;
+  }
+  if (allowAccidentals) {
+    return setConstraints(song, { allowAccidentals });
+  }
+
+  const tracks = song.melody.tracks.map((track) => {
+    let minMidi = noteNameToMidi(track.minNote);
+    let maxMidi = noteNameToMidi(track.maxNote);
+    if (!isWhiteKey(minMidi)) minMidi++;
+    if (!isWhiteKey(maxMidi)) maxMidi--;
+    if (maxMidi < minMidi) maxMidi = minMidi;
+    return { ...track, minNote: midiToNoteName(minMidi), maxNote: midiToNoteName(maxMidi) };
+  });
+
+  const snapped = mapAllNotes(
+    {
+      ...song,
+      constraints: { ...song.constraints, allowAccidentals },
+      melody: { ...song.melody, tracks },
+    },
+    (trackNotes, track) => {
+      const minMidi = noteNameToMidi(track.minNote);
+      const maxMidi = noteNameToMidi(track.maxNote);
+      const notes: MelodyNote[] = [];
+      for (const n of trackNotes) {
+        const midi = noteNameToMidi(n.note);
+        if (isWhiteKey(midi)) {
+          notes.push(n);
+          continue;
+        }
+        if (policy === "delete") continue;
+
+        const preferred = policy === "snap-up" ? midi + 1 : midi - 1;
+        const fallback = policy === "snap-up" ? midi - 1 : midi + 1;
+        const target = [preferred, fallback].find((m) => m >= minMidi && m <= maxMidi);
+        if (target !== undefined) {
+          notes.push({ ...n, note: midiToNoteName(target) });
+        }
+      }
+      return notes;
+    }
+  );
+
+  const result = settleTimeline(snapped);
+  // A scale that needs sharps can't survive; fall back to the plain white-key grid
+  if (result.scale && scaleHasAccidentals(result.scale)) {
+    delete result.scale;
+  }
+  return result;
+}
+
+// Switches the grid to a new scale (or back to the plain grid with undefined) and
+// moves every note to the same degree of the new scale, folded by octaves into its track's range.
+// A note with no octave inside a narrow range stays in the song outside it, as notes left out
+// by a narrower range can.
+export function setScale(song: Song, scale: Scale | undefined): Song {
+  if (scale && !song.constraints.allowAccidentals && scaleHasAccidentals(scale)) {
+    return song;
+  }
+
+  const next: Song = { ...song, scale };
+  if (!scale) {
+    delete next.scale;
+  }
+
+  const from = effectiveScale(song);
+  const to = effectiveScale(next);
+
+  const limitMin = noteNameToMidi(PITCH_RANGE_MIN);
+  const limitMax = noteNameToMidi(PITCH_RANGE_MAX);
+  const remapped = mapAllNotes(next, (trackNotes, track) => {
+    const minMidi = noteNameToMidi(track.minNote);
+    const maxMidi = noteNameToMidi(track.maxNote);
+    return trackNotes.map((n) => {
+      const mapped = remapPitch(noteNameToMidi(n.note), from, to);
+      const midi =
+        foldIntoRange(mapped, minMidi, maxMidi) ??
+        foldIntoRange(mapped, limitMin, limitMax) ??
+        mapped;
+      return { ...n, note: midiToNoteName(midi) };
+    });
+  });
+  return settleTimeline(remapped);
+}
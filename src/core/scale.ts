@@ -0,0 +1,118 @@
+import type { PitchClass, Scale, ScaleMode, Song } from "./types";
+import { PITCH_CLASSES } from "./types";
+import { isWhiteKey } from "./utils";
+
+// Semitone offsets from the root for each mode
+export const SCALE_INTERVALS: Record<ScaleMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  "major-pentatonic": [0, 2, 4, 7, 9],
+  "minor-pentatonic": [0, 3, 5, 7, 10],
+  blues: [0, 3, 5, 6, 7, 10],
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+export const SCALE_LABELS: Record<ScaleMode, string> = {
+  major: "Major",
+  minor: "Minor",
+  dorian: "Dorian",
+  phrygian: "Phrygian",
+  lydian: "Lydian",
+  mixolydian: "Mixolydian",
+  locrian: "Locrian",
+  "major-pentatonic": "Major pentatonic",
+  "minor-pentatonic": "Minor pentatonic",
+  blues: "Blues",
+  chromatic: "Chromatic",
+};
+
+// What the grid used before scales existed: C major (white keys) or all twelve notes
+const WHITE_KEY_SCALE: Scale = { root: "C", mode: "major" };
+const CHROMATIC_SCALE: Scale = { root: "C", mode: "chromatic" };
+
+function mod12(n: number): number {
+  return ((n % 12) + 12) % 12;
+}
+
+export function pitchClassIndex(pc: PitchClass): number {
+  return PITCH_CLASSES.indexOf(pc);
+}
+
+export function transposePitchClass(pc: PitchClass, semitones: number): PitchClass {
+  return PITCH_CLASSES[mod12(pitchClassIndex(pc) + semitones)];
+}
+
+export function isInScale(midi: number, scale: Scale): boolean {
+  const offset = mod12(midi - pitchClassIndex(scale.root));
+  return SCALE_INTERVALS[scale.mode].includes(offset);
+}
+
+export function scaleHasAccidentals(scale: Scale): boolean {
+  const root = pitchClassIndex(scale.root);
+  return SCALE_INTERVALS[scale.mode].some((interval) => !isWhiteKey(root + interval));
+}
+
+// The scale currently deciding which pitches are usable, including the pre-scale defaults
+export function effectiveScale(song: Song): Scale {
+  if (song.scale) return song.scale;
+  return song.constraints.allowAccidentals ? CHROMATIC_SCALE : WHITE_KEY_SCALE;
+}
+
+export function isPitchAllowed(song: Song, midi: number): boolean {
+  if (!song.constraints.allowAccidentals && !isWhiteKey(midi)) {
+    return false;
+  }
+  return isInScale(midi, effectiveScale(song));
+}
+
+// Nearest allowed pitch strictly above (direction 1) or below (-1), or null within two octaves
+export function nextAllowedPitch(song: Song, midi: number, direction: 1 | -1): number | null {
+  for (let candidate = midi + direction; Math.abs(candidate - midi) <= 24; candidate += direction) {
+    if (isPitchAllowed(song, candidate)) return candidate;
+  }
+  return null;
+}
+
+// Absolute degree counted from the root in octave 0; off-scale pitches round down
+export function degreeOf(midi: number, scale: Scale): number {
+  const intervals = SCALE_INTERVALS[scale.mode];
+  const relative = midi - pitchClassIndex(scale.root);
+  const octave = Math.floor(relative / 12);
+  const offset = mod12(relative);
+  let index = 0;
+  for (let i = 0; i < intervals.length; i++) {
+    if (intervals[i] <= offset) index = i;
+  }
+  return octave * intervals.length + index;
+}
+
+export function pitchOfDegree(degree: number, scale: Scale): number {
+  const intervals = SCALE_INTERVALS[scale.mode];
+  const octave = Math.floor(degree / intervals.length);
+  const index = degree - octave * intervals.length;
+  return pitchClassIndex(scale.root) + octave * 12 + intervals[index];
+}
+
+export function transposeByDegrees(midi: number, degrees: number, scale: Scale): number {
+  return pitchOfDegree(degreeOf(midi, scale) + degrees, scale);
+}
+
+// Maps a pitch to the same scale degree in another scale. Scales with a different
+// number of degrees are stretched so the root and octave still line up.
+export function remapPitch(midi: number, from: Scale, to: Scale): number {
+  const fromLength = SCALE_INTERVALS[from.mode].length;
+  const toLength = SCALE_INTERVALS[to.mode].length;
+  const degree = degreeOf(midi, from);
+  const octave = Math.floor(degree / fromLength);
+  const index = degree - octave * fromLength;
+  const mapped = Math.min(toLength - 1, Math.round((index * toLength) / fromLength));
+  // Move the root by the shorter way round (C -> A goes down a third, not up a sixth)
+  const rootDelta = pitchClassIndex(to.root) - pitchClassIndex(from.root);
+  const octaveShift = rootDelta > 6 ? -12 : rootDelta < -6 ? 12 : 0;
+  return pitchOfDegree(octave * toLength + mapped, to) + octaveShift;
+}
@@ -0,0 +1,243 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { Song } from "./types";
+import { DEFAULT_SONG } from "./defaults";
+import type { InstrumentInfo } from "./instruments";
+import { registerInstrument, unregisterInstrument } from "./instruments";
+import {
+  CURRENT_SONG_VERSION,
+  migrateSong,
+  parseSong,
+  serializeSong,
+  SongFormatError,
+} from "./serialize";
+import { MAX_BPM, MIN_BPM } from "./utils";
+
+// Instruments registered by a test, taken out of the shared registry again after it
+const registered: string[] = [];
+
+function registerForTest(id: string, info: InstrumentInfo): void {
+  registerInstrument(id, info);
+  registered.push(id);
+}
+
+afterEach(() => {
+  for (const id of registered.splice(0)) unregisterInstrument(id);
+});
+
+// The default song with one note and one kick in pattern "a"
+const SONG: Song = {
+  ...DEFAULT_SONG,
+  patterns: [
+    {
+      id: "a",
+      name: "A",
+      notes: { melody: [{ id: "n1", startStep: 0, durationSteps: 2, note: "E4" }] },
+      hits: [{ id: "h1", step: 4, drumId: "kick" }],
+    },
+  ],
+};
+
+// A copy of the song changed by `edit`, as a file would hold it. Values of the wrong type
+// go in through Object.assign.
+function edited(edit: (raw: Song) => void): string {
+  const raw = structuredClone(SONG);
+  edit(raw);
+  return JSON.stringify(raw);
+}
+
+describe("parseSong", () => {
+  it("reads back what serializeSong writes", () => {
+    expect(parseSong(serializeSong(SONG))).toEqual(SONG);
+  });
+
+  it("accepts any registered instrument", () => {
+    registerForTest("organ", { label: "Organ", program: 19 });
+    const text = edited((raw) => (raw.melody.tracks[0].instrument = "organ"));
+    expect(parseSong(text).melody.tracks[0].instrument).toBe("organ");
+  });
+
+  it("accepts the tempo limits", () => {
+    for (const bpm of [MIN_BPM, MAX_BPM]) {
+      expect(parseSong(edited((raw) => (raw.bpm = bpm))).bpm).toBe(bpm);
+    }
+  });
+
+  it.each<[string, string, (raw: Song) => void]>([
+    ["a tempo below the slider", "song.bpm must be between", (raw) => (raw.bpm = MIN_BPM - 1)],
+    ["a tempo above the slider", "song.bpm must be between", (raw) => (raw.bpm = MAX_BPM + 1)],
+    ["a tempo that isn't a number", "song.bpm must be a number", (raw) => {
+      Object.assign(raw, { bpm: "fast" });
+    }],
+    ["fractional steps", "song.stepsPerBeat must be a whole number", (raw) => {
+      raw.stepsPerBeat = 2.5;
+    }],
+    ["an unknown beat unit", "song.beatUnit must be 4 or 8", (raw) => {
+      Object.assign(raw, { beatUnit: 3 });
+    }],
+    ["missing constraints", "song.constraints must be an object", (raw) => {
+      Object.assign(raw, { constraints: undefined });
+    }],
+    ["no tracks", "song.melody.tracks must have 1 to", (raw) => (raw.melody.tracks = [])],
+    ["repeated track ids", "song.melody.tracks must have unique ids", (raw) => {
+      raw.melody.tracks.push({ ...raw.melody.tracks[0] });
+    }],
+    ["an unknown instrument", "song.melody.tracks[0].instrument must be one of", (raw) => {
+      Object.assign(raw.melody.tracks[0], { instrument: "kazoo" });
+    }],
+    ["an upside-down range", "song.melody.tracks[0].minNote must not be above maxNote", (raw) => {
+      raw.melody.tracks[0].minNote = "D5";
+    }],
+    ["a range past the pitch limits", "song.melody.tracks[0] range must stay within", (raw) => {
+      raw.melody.tracks[0].maxNote = "C9";
+    }],
+    ["a bad note name", "song.patterns[0].notes.melody[0].note is not a valid note name", (raw) => {
+      raw.patterns[0].notes.melody[0].note = "H4";
+    }],
+    ["a note past the end", "song.patterns[0].notes.melody[0].startStep must be between", (raw) => {
+      raw.patterns[0].notes.melody[0].startStep = 64;
+    }],
+    ["a note held past the end", "durationSteps must be between", (raw) => {
+      raw.patterns[0].notes.melody[0].durationSteps = 65;
+    }],
+    ["notes for a missing track", 'has notes for unknown track "bass"', (raw) => {
+      raw.patterns[0].notes.bass = [];
+    }],
+    ["an unknown drum", "song.patterns[0].hits[0].drumId must be one of", (raw) => {
+      Object.assign(raw.patterns[0].hits[0], { drumId: "gong" });
+    }],
+    ["repeated pattern ids", "song.patterns must have unique ids", (raw) => {
+      raw.patterns.push({ ...raw.patterns[0] });
+    }],
+    ["an arrangement of a missing pattern", 'refers to unknown pattern "b"', (raw) => {
+      raw.arrangement[0].patternId = "b";
+    }],
+    ["an empty arrangement", "song.arrangement must have 1 to", (raw) => (raw.arrangement = [])],
+    ["drum rows hiding a drum with hits", 'song.drumRows must include "kick"', (raw) => {
+      raw.drumRows = ["snare"];
+    }],
+    ["a volume over full", "song.volume must be between", (raw) => (raw.volume = 1.5)],
+  ])("turns away %s", (_name, message, edit) => {
+    const text = edited(edit);
+    expect(() => parseSong(text)).toThrow(SongFormatError);
+    expect(() => parseSong(text)).toThrow(message);
+  });
+
+  it("turns away text that isn't JSON", () => {
+    expect(() => parseSong("{")).toThrow("File is not valid JSON");
+  });
+
+  it.each<[string, unknown, string]>([
+    ["a missing version", undefined, "song.version must be a positive integer"],
+    ["version 0", 0, "song.version must be a positive integer"],
+    ["a newer version", CURRENT_SONG_VERSION + 1, "is newer than this app supports"],
+  ])("turns away %s", (_name, version, message) => {
+    expect(() => parseSong(edited((raw) => Object.assign(raw, { version })))).toThrow(message);
+  });
+});
+
+// A song as version 1 wrote it: one melody, the range in the constraints, drums alongside
+const V1 = {
+  version: 1,
+  bpm: 90,
+  stepsPerBeat: 4,
+  bars: 2,
+  instrument: "piano",
+  constraints: {
+    allowAccidentals: true,
+    tempoLocked: false,
+    barsLocked: true,
+    drumsEnabled: true,
+    minNote: "A3",
+    maxNote: "E5",
+  },
+  melody: { notes: [{ id: "n1", startStep: 0, durationSteps: 2, note: "C#4" }] },
+  drums: { hits: [{ id: "h1", step: 4, drumId: "snare" }] },
+};
+
+const V1_AS_V4: Song = {
+  version: 4,
+  bpm: 90,
+  stepsPerBeat: 4,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  bars: 2,
+  constraints: {
+    allowAccidentals: true,
+    tempoLocked: false,
+    barsLocked: true,
+    drumsEnabled: true,
+  },
+  melody: {
+    tracks: [
+      {
+        id: "melody",
+        name: "Melody",
+        instrument: "piano",
+        minNote: "A3",
+        maxNote: "E5",
+        muted: false,
+        solo: false,
+        volume: 1,
+      },
+    ],
+  },
+  patterns: [
+    {
+      id: "a",
+      name: "A",
+      notes: { melody: [{ id: "n1", startStep: 0, durationSteps: 2, note: "C#4" }] },
+      hits: [{ id: "h1", step: 4, drumId: "snare" }],
+    },
+  ],
+  arrangement: [{ patternId: "a", repeats: 1 }],
+};
+
+describe("migrateSong", () => {
+  it("brings a version 1 song up to the current version", () => {
+    expect(parseSong(JSON.stringify(V1))).toEqual(V1_AS_V4);
+  });
+
+  it("keeps the time signature of a version 2 song", () => {
+    const v2 = { ...V1, version: 2, beatsPerBar: 3, beatUnit: 8, bars: 3 };
+    expect(parseSong(JSON.stringify(v2))).toEqual({
+      ...V1_AS_V4,
+      beatsPerBar: 3,
+      beatUnit: 8,
+      bars: 3,
+    });
+  });
+
+  it("moves the notes of every version 3 track into pattern A", () => {
+    const [track] = V1_AS_V4.melody.tracks;
+    const v3 = {
+      ...V1_AS_V4,
+      version: 3,
+      melody: {
+        tracks: [
+          { ...track, notes: V1.melody.notes },
+          { ...track, id: "bass", name: "Bass", notes: [] },
+        ],
+      },
+      patterns: undefined,
+      arrangement: undefined,
+      drums: V1.drums,
+    };
+    const song = parseSong(JSON.stringify(v3));
+    expect(song.melody.tracks.map((t) => t.id)).toEqual(["melody", "bass"]);
+    expect(song.patterns).toEqual([
+      { ...V1_AS_V4.patterns[0], notes: { melody: V1.melody.notes, bass: [] } },
+    ]);
+    expect(song.arrangement).toEqual([{ patternId: "a", repeats: 1 }]);
+  });
+
+  it("leaves a current song as it is", () => {
+    const raw = JSON.parse(serializeSong(SONG));
+    expect(migrateSong(raw)).toEqual(raw);
+  });
+
+  it("fails cleanly on an old song missing what its migration needs", () => {
+    const broken = { ...V1, constraints: undefined };
+    expect(() => migrateSong(broken)).toThrow(SongFormatError);
+    expect(() => migrateSong(broken)).toThrow("song.constraints must be an object");
+  });
+});
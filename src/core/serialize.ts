@@ -0,0 +1,505 @@
+import type {
+  ArrangementEntry,
+  Assignment,
+  BeatUnit,
+  Bus,
+  Constraints,
+  DrumHit,
+  DrumId,
+  Groove,
+  GrooveId,
+  InstrumentId,
+  MelodyNote,
+  MelodyTrack,
+  Mix,
+  Pattern,
+  PitchClass,
+  Scale,
+  ScaleMode,
+  Song,
+} from "./types";
+import { DRUM_IDS, GROOVE_IDS, PITCH_CLASSES, SCALE_MODES } from "./types";
+import { sortDrumRows } from "./drumkit";
+import { listInstruments } from "./instruments";
+import {
+  MAX_DELAY_BEATS,
+  MAX_DELAY_FEEDBACK,
+  MAX_FILTER_CUTOFF,
+  MAX_REVERB_DECAY,
+  MIN_DELAY_BEATS,
+  MIN_FILTER_CUTOFF,
+  MIN_REVERB_DECAY,
+} from "./mix";
+import {
+  MAX_ARRANGEMENT_ENTRIES,
+  MAX_BARS,
+  MAX_BPM,
+  MAX_PATTERNS,
+  MAX_REPEATS,
+  MAX_TRACKS,
+  MIN_BPM,
+  noteNameToMidi,
+  PITCH_RANGE_MAX,
+  PITCH_RANGE_MIN,
+  normalizeNoteName,
+  totalSteps,
+} from "./utils";
+
+export const CURRENT_SONG_VERSION = 4;
+
+export class SongFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SongFormatError";
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+// Each entry upgrades a raw song from `version` to `version + 1`
+const MIGRATIONS: Record<number, (raw: RawObject) => RawObject> = {
+  // v2: explicit time signature (v1 songs were always 4/4)
+  1: (raw) => ({ ...raw, beatsPerBar: 4, beatUnit: 4 }),
+  // v3: the single melody becomes one track carrying the song's instrument and range
+  2: (raw) => {
+    const { instrument, ...rest } = raw;
+    const { minNote, maxNote, ...constraints } = expectObject(raw.constraints, "song.constraints");
+    const melody = expectObject(raw.melody, "song.melody");
+    return {
+      ...rest,
+      constraints,
+      melody: {
+        tracks: [
+          {
+            id: "melody",
+            name: "Melody",
+            instrument,
+            minNote,
+            maxNote,
+            muted: false,
+            solo: false,
+            volume: 1,
+            notes: melody.notes,
+          },
+        ],
+      },
+    };
+  },
+  // v4: notes and hits move into a single pattern "A" that the arrangement plays once
+  3: (raw) => {
+    const { drums, ...rest } = raw;
+    const melody = expectObject(raw.melody, "song.melody");
+    const notes: RawObject = {};
+    const tracks = expectArray(melody.tracks, "song.melody.tracks").map((track, i) => {
+      const { notes: trackNotes, ...settings } = expectObject(track, `song.melody.tracks[${i}]`);
+      notes[String(settings.id)] = trackNotes;
+      return settings;
+    });
+    return {
+      ...rest,
+      melody: { ...melody, tracks },
+      patterns: [{ id: "a", name: "A", notes, hits: expectObject(drums, "song.drums").hits }],
+      arrangement: [{ patternId: "a", repeats: 1 }],
+    };
+  },
+};
+
+export function serializeSong(song: Song): string {
+  return JSON.stringify(song, null, 2);
+}
+
+export function parseSong(text: string): Song {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SongFormatError("File is not valid JSON");
+  }
+  return validateSong(migrateSong(raw));
+}
+
+export function migrateSong(raw: unknown): RawObject {
+  let song = expectObject(raw, "song");
+  let version = song.version;
+
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new SongFormatError("song.version must be a positive integer");
+  }
+  if (version > CURRENT_SONG_VERSION) {
+    throw new SongFormatError(
+      `song.version ${version} is newer than this app supports (${CURRENT_SONG_VERSION})`
+    );
+  }
+
+  while (version < CURRENT_SONG_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new SongFormatError(`No migration from song version ${version}`);
+    }
+    song = { ...migrate(song), version: version + 1 };
+    version++;
+  }
+
+  return song;
+}
+
+export function validateSong(raw: unknown): Song {
+  const song = expectObject(raw, "song");
+
+  if (song.version !== CURRENT_SONG_VERSION) {
+    throw new SongFormatError(`song.version must be ${CURRENT_SONG_VERSION}`);
+  }
+
+  const bpm = expectNumber(song.bpm, "song.bpm", MIN_BPM, MAX_BPM);
+  const stepsPerBeat = expectInteger(song.stepsPerBeat, "song.stepsPerBeat", 1, 8);
+  const beatsPerBar = expectInteger(song.beatsPerBar, "song.beatsPerBar", 1, 12);
+  const beatUnit = expectBeatUnit(song.beatUnit, "song.beatUnit");
+  const bars = expectInteger(song.bars, "song.bars", 1, MAX_BARS);
+  const constraints = validateConstraints(song.constraints);
+  const total = totalSteps({ bars, beatsPerBar, stepsPerBeat });
+
+  const melody = expectObject(song.melody, "song.melody");
+  const tracks = expectArray(melody.tracks, "song.melody.tracks").map((track, i) =>
+    validateTrack(track, `song.melody.tracks[${i}]`)
+  );
+  if (tracks.length === 0 || tracks.length > MAX_TRACKS) {
+    throw new SongFormatError(`song.melody.tracks must have 1 to ${MAX_TRACKS} tracks`);
+  }
+  const trackIds = new Set(tracks.map((t) => t.id));
+  if (trackIds.size !== tracks.length) {
+    throw new SongFormatError("song.melody.tracks must have unique ids");
+  }
+
+  const patterns = expectArray(song.patterns, "song.patterns").map((pattern, i) =>
+    validatePattern(pattern, `song.patterns[${i}]`, trackIds, total)
+  );
+  if (patterns.length === 0 || patterns.length > MAX_PATTERNS) {
+    throw new SongFormatError(`song.patterns must have 1 to ${MAX_PATTERNS} patterns`);
+  }
+  const patternIds = new Set(patterns.map((p) => p.id));
+  if (patternIds.size !== patterns.length) {
+    throw new SongFormatError("song.patterns must have unique ids");
+  }
+  const arrangement = validateArrangement(song.arrangement, patternIds);
+
+  const hits = patterns.flatMap((p) => p.hits);
+  const drumRows =
+    song.drumRows === undefined ? undefined : validateDrumRows(song.drumRows, hits);
+
+  const result: Song = {
+    version: CURRENT_SONG_VERSION,
+    bpm,
+    stepsPerBeat,
+    beatsPerBar,
+    beatUnit,
+    bars,
+    constraints,
+    melody: { tracks },
+    patterns,
+    arrangement,
+  };
+  if (song.volume !== undefined) {
+    result.volume = expectNumber(song.volume, "song.volume", 0, 1);
+  }
+  if (song.scale !== undefined) {
+    result.scale = validateScale(song.scale);
+  }
+  if (song.groove !== undefined) {
+    result.groove = validateGroove(song.groove);
+  }
+  if (song.mix !== undefined) {
+    result.mix = validateMix(song.mix);
+  }
+  if (drumRows) {
+    result.drumRows = drumRows;
+  }
+  if (song.assignment !== undefined) {
+    result.assignment = validateAssignment(song.assignment);
+  }
+  return result;
+}
+
+function validateScale(raw: unknown): Scale {
+  const scale = expectObject(raw, "song.scale");
+  return {
+    root: expectOneOf<PitchClass>(scale.root, PITCH_CLASSES, "song.scale.root"),
+    mode: expectOneOf<ScaleMode>(scale.mode, SCALE_MODES, "song.scale.mode"),
+  };
+}
+
+function validateGroove(raw: unknown): Groove {
+  const groove = expectObject(raw, "song.groove");
+  return {
+    template: expectOneOf<GrooveId>(groove.template, GROOVE_IDS, "song.groove.template"),
+    amount: expectNumber(groove.amount, "song.groove.amount", 0, 1),
+  };
+}
+
+function validateMix(raw: unknown): Mix {
+  const mix = expectObject(raw, "song.mix");
+  return {
+    melody: validateBus(mix.melody, "song.mix.melody"),
+    drums: validateBus(mix.drums, "song.mix.drums"),
+    reverbDecay: expectNumber(
+      mix.reverbDecay,
+      "song.mix.reverbDecay",
+      MIN_REVERB_DECAY,
+      MAX_REVERB_DECAY
+    ),
+    delayBeats: expectNumber(
+      mix.delayBeats,
+      "song.mix.delayBeats",
+      MIN_DELAY_BEATS,
+      MAX_DELAY_BEATS
+    ),
+    delayFeedback: expectNumber(mix.delayFeedback, "song.mix.delayFeedback", 0, MAX_DELAY_FEEDBACK),
+    filterCutoff: expectNumber(
+      mix.filterCutoff,
+      "song.mix.filterCutoff",
+      MIN_FILTER_CUTOFF,
+      MAX_FILTER_CUTOFF
+    ),
+  };
+}
+
+function validateBus(raw: unknown, path: string): Bus {
+  const bus = expectObject(raw, path);
+  return {
+    volume: expectNumber(bus.volume, `${path}.volume`, 0, 1),
+    pan: expectNumber(bus.pan, `${path}.pan`, -1, 1),
+    muted: expectBoolean(bus.muted, `${path}.muted`),
+    reverb: expectNumber(bus.reverb, `${path}.reverb`, 0, 1),
+    delay: expectNumber(bus.delay, `${path}.delay`, 0, 1),
+  };
+}
+
+function validateDrumRows(raw: unknown, hits: DrumHit[]): DrumId[] {
+  const rows = expectArray(raw, "song.drumRows").map((id, i) =>
+    expectOneOf<DrumId>(id, DRUM_IDS, `song.drumRows[${i}]`)
+  );
+  const hidden = hits.find((hit) => !rows.includes(hit.drumId));
+  if (hidden) {
+    throw new SongFormatError(`song.drumRows must include "${hidden.drumId}", which has hits`);
+  }
+  return sortDrumRows(rows);
+}
+
+function validateAssignment(raw: unknown): Assignment {
+  const assignment = expectObject(raw, "song.assignment");
+  return {
+    title: expectText(assignment.title, "song.assignment.title"),
+    instructions: expectText(assignment.instructions, "song.assignment.instructions"),
+  };
+}
+
+function validateTrack(raw: unknown, path: string): MelodyTrack {
+  const track = expectObject(raw, path);
+  const minNote = expectNoteName(track.minNote, `${path}.minNote`);
+  const maxNote = expectNoteName(track.maxNote, `${path}.maxNote`);
+
+  if (noteNameToMidi(minNote) > noteNameToMidi(maxNote)) {
+    throw new SongFormatError(`${path}.minNote must not be above maxNote`);
+  }
+  if (
+    noteNameToMidi(minNote) < noteNameToMidi(PITCH_RANGE_MIN) ||
+    noteNameToMidi(maxNote) > noteNameToMidi(PITCH_RANGE_MAX)
+  ) {
+    throw new SongFormatError(
+      `${path} range must stay within ${PITCH_RANGE_MIN}–${PITCH_RANGE_MAX}`
+    );
+  }
+
+  return {
+    id: expectString(track.id, `${path}.id`),
+    name: expectText(track.name, `${path}.name`),
+    instrument: expectOneOf<InstrumentId>(
+      track.instrument,
+      listInstruments().map((instrument) => instrument.id),
+      `${path}.instrument`
+    ),
+    minNote,
+    maxNote,
+    muted: expectBoolean(track.muted, `${path}.muted`),
+    solo: expectBoolean(track.solo, `${path}.solo`),
+    volume: expectNumber(track.volume, `${path}.volume`, 0, 1),
+  };
+}
+
+function validatePattern(
+  raw: unknown,
+  path: string,
+  trackIds: Set<string>,
+  total: number
+): Pattern {
+  const pattern = expectObject(raw, path);
+  const rawNotes = expectObject(pattern.notes, `${path}.notes`);
+  const notes: Record<string, MelodyNote[]> = {};
+  for (const [trackId, trackNotes] of Object.entries(rawNotes)) {
+    if (!trackIds.has(trackId)) {
+      throw new SongFormatError(`${path}.notes has notes for unknown track "${trackId}"`);
+    }
+    notes[trackId] = expectArray(trackNotes, `${path}.notes.${trackId}`).map((note, i) =>
+      validateMelodyNote(note, `${path}.notes.${trackId}[${i}]`, total)
+    );
+  }
+
+  return {
+    id: expectString(pattern.id, `${path}.id`),
+    name: expectText(pattern.name, `${path}.name`),
+    notes,
+    hits: expectArray(pattern.hits, `${path}.hits`).map((hit, i) =>
+      validateDrumHit(hit, `${path}.hits[${i}]`, total)
+    ),
+  };
+}
+
+function validateArrangement(raw: unknown, patternIds: Set<string>): ArrangementEntry[] {
+  const entries = expectArray(raw, "song.arrangement").map((item, i) => {
+    const path = `song.arrangement[${i}]`;
+    const entry = expectObject(item, path);
+    const patternId = expectString(entry.patternId, `${path}.patternId`);
+    if (!patternIds.has(patternId)) {
+      throw new SongFormatError(`${path}.patternId refers to unknown pattern "${patternId}"`);
+    }
+    return { patternId, repeats: expectInteger(entry.repeats, `${path}.repeats`, 1, MAX_REPEATS) };
+  });
+  if (entries.length === 0 || entries.length > MAX_ARRANGEMENT_ENTRIES) {
+    throw new SongFormatError(
+      `song.arrangement must have 1 to ${MAX_ARRANGEMENT_ENTRIES} entries`
+    );
+  }
+  return entries;
+}
+
+function validateConstraints(raw: unknown): Constraints {
+  const constraints = expectObject(raw, "song.constraints");
+
+  return {
+    allowAccidentals: expectBoolean(
+      constraints.allowAccidentals,
+      "song.constraints.allowAccidentals"
+    ),
+    tempoLocked: expectBoolean(constraints.tempoLocked, "song.constraints.tempoLocked"),
+    barsLocked: expectBoolean(constraints.barsLocked, "song.constraints.barsLocked"),
+    drumsEnabled: expectBoolean(constraints.drumsEnabled, "song.constraints.drumsEnabled"),
+  };
+}
+
+function validateMelodyNote(raw: unknown, path: string, total: number): MelodyNote {
+  const note = expectObject(raw, path);
+  const startStep = expectInteger(note.startStep, `${path}.startStep`, 0, total - 1);
+  const durationSteps = expectInteger(
+    note.durationSteps,
+    `${path}.durationSteps`,
+    1,
+    total - startStep
+  );
+
+  const result: MelodyNote = {
+    id: expectString(note.id, `${path}.id`),
+    startStep,
+    durationSteps,
+    note: expectNoteName(note.note, `${path}.note`),
+  };
+  if (note.velocity !== undefined) {
+    result.velocity = expectNumber(note.velocity, `${path}.velocity`, 0, 1);
+  }
+  return result;
+}
+
+function validateDrumHit(raw: unknown, path: string, total: number): DrumHit {
+  const hit = expectObject(raw, path);
+  const result: DrumHit = {
+    id: expectString(hit.id, `${path}.id`),
+    step: expectInteger(hit.step, `${path}.step`, 0, total - 1),
+    drumId: expectOneOf<DrumId>(hit.drumId, DRUM_IDS, `${path}.drumId`),
+  };
+  if (hit.velocity !== undefined) {
+    result.velocity = expectNumber(hit.velocity, `${path}.velocity`, 0, 1);
+  }
+  return result;
+}
+
+function expectObject(value: unknown, path: string): RawObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SongFormatError(`${path} must be an object`);
+  }
+  return value as RawObject;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new SongFormatError(`${path} must be an array`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new SongFormatError(`${path} must be a non-empty string`);
+  }
+  return value;
+}
+
+function expectText(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new SongFormatError(`${path} must be a string`);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new SongFormatError(`${path} must be true or false`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, min: number, max: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new SongFormatError(`${path} must be a number`);
+  }
+  if (value < min || value > max) {
+    throw new SongFormatError(`${path} must be between ${min} and ${max} (got ${value})`);
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string, min: number, max: number): number {
+  const n = expectNumber(value, path, min, max);
+  if (!Number.isInteger(n)) {
+    throw new SongFormatError(`${path} must be a whole number (got ${n})`);
+  }
+  return n;
+}
+
+function expectOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  path: string
+): T {
+  const match = allowed.find((candidate) => candidate === value);
+  if (!match) {
+    throw new SongFormatError(
+      `${path} must be one of ${allowed.join(", ")} (got ${JSON.stringify(value)})`
+    );
+  }
+  return match;
+}
+
+function expectBeatUnit(value: unknown, path: string): BeatUnit {
+  if (value !== 4 && value !== 8) {
+    throw new SongFormatError(`${path} must be 4 or 8 (got ${JSON.stringify(value)})`);
+  }
+  return value;
+}
+
+function expectNoteName(value: unknown, path: string): string {
+  const note = expectString(value, path);
+  try {
+    noteNameToMidi(note);
+  } catch {
+    throw new SongFormatError(`${path} is not a valid note name (got "${note}")`);
+  }
+  return normalizeNoteName(note);
+}
@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import type { MelodyTrack, Pattern, Song } from "./types";
+import { DEFAULT_SONG, DEFAULT_TRACK } from "./defaults";
+import { SongFormatError, serializeSong } from "./serialize";
+import { decodeShareCode, encodeShareCode, SHARE_HASH_PREFIX, songFromHash } from "./share";
+
+const WHITE_KEYS = ["C4", "D4", "E4", "F4", "G4", "A4", "B4", "C5"];
+
+// A song `bars` long with `tracks` tracks and `patterns` patterns, each track playing a
+// two-step note on every beat and the drums a kick and a hi-hat on every beat
+function makeSong(bars: number, tracks: number = 1, patterns: number = 1): Song {
+  const melodyTracks: MelodyTrack[] = Array.from({ length: tracks }, (_, t) => ({
+    ...DEFAULT_TRACK,
+    id: `track-${t}`,
+    name: `Track ${t + 1}`,
+  }));
+  const beats = bars * DEFAULT_SONG.beatsPerBar;
+  const makePattern = (p: number): Pattern => ({
+    id: `pattern-${p}`,
+    name: String.fromCharCode(65 + p),
+    notes: Object.fromEntries(
+      melodyTracks.map((track, t) => [
+        track.id,
+        Array.from({ length: beats }, (_, beat) => ({
+          id: `note-${p}-${t}-${beat}`,
+          startStep: beat * DEFAULT_SONG.stepsPerBeat,
+          durationSteps: 2,
+          note: WHITE_KEYS[(beat + t + p) % WHITE_KEYS.length],
+          ...(beat % 4 === 0 ? { velocity: 0.8 } : {}),
+        })),
+      ])
+    ),
+    hits: Array.from({ length: beats }, (_, beat) => [
+      {
+        id: `kick-${p}-${beat}`,
+        step: beat * DEFAULT_SONG.stepsPerBeat,
+        drumId: "kick" as const,
+      },
+      {
+        id: `hihat-${p}-${beat}`,
+        step: beat * DEFAULT_SONG.stepsPerBeat + 2,
+        drumId: "hihat" as const,
+        velocity: 0.5,
+      },
+    ]).flat(),
+  });
+  const songPatterns = Array.from({ length: patterns }, (_, p) => makePattern(p));
+  return {
+    ...DEFAULT_SONG,
+    bars,
+    melody: { tracks: melodyTracks },
+    patterns: songPatterns,
+    arrangement: songPatterns.map((pattern, i) => ({ patternId: pattern.id, repeats: i + 1 })),
+  };
+}
+
+// Links don't keep ids, so songs are compared with ids blanked and patterns by position
+function withoutIds(song: Song) {
+  const { melody, patterns, arrangement, ...settings } = song;
+  const trackIds = melody.tracks.map((t) => t.id);
+  const byStart = <T extends { startStep: number }>(a: T, b: T) => a.startStep - b.startStep;
+  return {
+    ...settings,
+    tracks: melody.tracks.map((track) => ({ ...track, id: "" })),
+    patterns: patterns.map((pattern) => ({
+      name: pattern.name,
+      notes: trackIds.map((id) =>
+        (pattern.notes[id] ?? []).map((note) => ({ ...note, id: "" })).sort(byStart)
+      ),
+      hits: pattern.hits
+        .map((hit) => ({ ...hit, id: "" }))
+        .sort((a, b) => a.step - b.step || a.drumId.localeCompare(b.drumId)),
+    })),
+    arrangement: arrangement.map((entry) => ({
+      pattern: patterns.findIndex((p) => p.id === entry.patternId),
+      repeats: entry.repeats,
+    })),
+  };
+}
+
+function roundTrip(song: Song): Song {
+  return decodeShareCode(encodeShareCode(song));
+}
+
+function codeOf(bytes: number[]): string {
+  return Buffer.from(bytes).toString("base64url");
+}
+
+describe("share links", () => {
+  it.each([
+    ["the blank song", DEFAULT_SONG],
+    ["one bar", makeSong(1)],
+    ["eight bars", makeSong(8)],
+    ["sixteen bars, three tracks, four patterns", makeSong(16, 3, 4)],
+    ["the longest song", makeSong(64)],
+  ])("round-trips %s", (_name, song) => {
+    expect(withoutIds(roundTrip(song))).toEqual(withoutIds(song));
+  });
+
+  it("round-trips every song setting", () => {
+    const song: Song = {
+      ...makeSong(2, 2),
+      bpm: 92.5,
+      // Still 32 steps, where makeSong puts its notes
+      stepsPerBeat: 2,
+      beatsPerBar: 8,
+      beatUnit: 8,
+      volume: 0.75,
+      constraints: {
+        allowAccidentals: true,
+        tempoLocked: true,
+        barsLocked: true,
+        drumsEnabled: false,
+      },
+      scale: { root: "F#", mode: "minor-pentatonic" },
+      groove: { template: "mpc-62", amount: 0.4 },
+      mix: {
+        melody: { volume: 0.9, pan: -0.35, muted: false, reverb: 0.2, delay: 0 },
+        drums: { volume: 0.6, pan: 1, muted: true, reverb: 0, delay: 0.3 },
+        reverbDecay: 3.5,
+        delayBeats: 0.75,
+        delayFeedback: 0.45,
+        filterCutoff: 4321,
+      },
+      // In row order, as setDrumRows leaves them
+      drumRows: ["cowbell", "hihat", "kick"],
+      assignment: { title: "きらきら星", instructions: "Finish the melody ♪" },
+    };
+    song.melody.tracks[1] = {
+      ...song.melody.tracks[1],
+      instrument: "sine",
+      minNote: "A2",
+      maxNote: "E6",
+      muted: true,
+      solo: true,
+      volume: 0.3,
+    };
+    expect(withoutIds(roundTrip(song))).toEqual(withoutIds(song));
+  });
+
+  it("gives the opened song new ids", () => {
+    const song = makeSong(1);
+    const opened = roundTrip(song);
+    expect(opened.patterns[0].id).not.toBe(song.patterns[0].id);
+    expect(opened.melody.tracks[0].id).not.toBe(song.melody.tracks[0].id);
+  });
+
+  it("reads a song from the URL fragment", () => {
+    const song = makeSong(1);
+    const hash = SHARE_HASH_PREFIX + encodeShareCode(song);
+    expect(withoutIds(songFromHash(hash) as Song)).toEqual(withoutIds(song));
+    expect(songFromHash("#other")).toBeNull();
+  });
+});
+
+describe("share link size", () => {
+  // The header costs a few dozen bytes, each note about four and each step with hits about
+  // three; the song file spends over a hundred characters on each note
+  it.each([
+    ["the blank song", DEFAULT_SONG, 50],
+    ["one bar", makeSong(1), 110],
+    ["eight bars", makeSong(8), 550],
+    ["sixteen bars, three tracks, four patterns", makeSong(16, 3, 4), 7500],
+  ])("keeps %s short", (_name, song, maxLength) => {
+    const code = encodeShareCode(song);
+    expect(code.length).toBeLessThanOrEqual(maxLength);
+    expect(code.length * 10).toBeLessThan(serializeSong(song).length);
+  });
+
+  it("keeps a fully set up song without notes under 80 bytes", () => {
+    const song: Song = {
+      ...DEFAULT_SONG,
+      volume: 0.8,
+      scale: { root: "C", mode: "major" },
+      groove: { template: "shuffle", amount: 0.5 },
+      mix: {
+        melody: { volume: 1, pan: 0, muted: false, reverb: 0.3, delay: 0.2 },
+        drums: { volume: 1, pan: 0, muted: false, reverb: 0, delay: 0 },
+        reverbDecay: 2,
+        delayBeats: 0.5,
+        delayFeedback: 0.35,
+        filterCutoff: 20000,
+      },
+      drumRows: ["hihat", "snare", "kick"],
+    };
+    const bytes = Buffer.from(encodeShareCode(song), "base64url");
+    expect(bytes.length).toBeLessThan(80);
+  });
+});
+
+describe("damaged share links", () => {
+  const valid = Array.from(Buffer.from(encodeShareCode(makeSong(1)), "base64url"));
+
+  it("rejects an unknown format", () => {
+    expect(() => decodeShareCode(codeOf([9, ...valid.slice(1)]))).toThrow(SongFormatError);
+  });
+
+  it("rejects a cut-short link", () => {
+    expect(() => decodeShareCode(codeOf(valid.slice(0, -3)))).toThrow("cut short");
+  });
+
+  it("rejects data after the song", () => {
+    expect(() => decodeShareCode(codeOf([...valid, 0]))).toThrow("unexpected data");
+  });
+
+  it("rejects settings outside what a song allows", () => {
+    // Format, then a bpm of 0 in place of the two bytes of 100.00
+    expect(() => decodeShareCode(codeOf([valid[0], 0, ...valid.slice(3)]))).toThrow(
+      SongFormatError
+    );
+  });
+
+  it("rejects text that isn't base64url", () => {
+    expect(() => decodeShareCode("not a link!")).toThrow(SongFormatError);
+  });
+});
@@ -0,0 +1,456 @@
+import type { Bus, DrumHit, MelodyNote, Mix, Pattern, Song } from "./types";
+import { DRUM_IDS, GROOVE_IDS, PITCH_CLASSES, SCALE_MODES } from "./types";
+import { newId } from "./id";
+import { migrateSong, SongFormatError, validateSong } from "./serialize";
+import { midiToNoteName, noteNameToMidi, patternNotes } from "./utils";
+
+// A whole song packed into a URL fragment, so a link can be shared without a server:
+// #song=<base64url of the bytes below>
+//
+//   format byte
+//   header:
+//     bpm in hundredths, steps per beat, beats per bar, beat unit, bars
+//     flags: the four constraints, then which of volume, scale, groove, mix, drum rows
+//       and assignment follow, in that order
+//     track count, then per track: name, instrument, lowest and highest MIDI key,
+//       muted and solo bits, volume
+//     pattern count, then per pattern: name
+//     arrangement length, then per entry: pattern position, repeats
+//   then for each pattern, for each track: note count, then per note
+//     start (steps after the previous note's start), MIDI key, duration, velocity byte
+//   then per pattern: count of steps with hits, then per step
+//     step (after the previous one), bitmask of DRUM_IDS, a velocity byte per set bit
+//
+// Numbers are MIDI-style variable-length quantities and text is length-prefixed UTF-8.
+// Ids aren't kept; opening a link gives every track, pattern, note and hit a new one.
+// Volumes, sends and velocities are kept to whole percents, with a velocity byte of 0
+// standing for "default".
+export const SHARE_HASH_PREFIX = "#song=";
+
+const SHARE_FORMAT = 1;
+// The song version the header describes; migrateSong brings it up to date
+const HEADER_SONG_VERSION = 4;
+const LEVELS = 100;
+
+// The song minus its notes and hits, with patterns referred to by position
+type ShareHeader = {
+  settings: Record<string, unknown>;
+  tracks: Record<string, unknown>[];
+  patternNames: string[];
+  arrangement: [patternIndex: number, repeats: number][];
+};
+
+export function encodeShareCode(song: Song): string {
+  const bytes = [SHARE_FORMAT, ...encodeHeader(song)];
+  for (const pattern of song.patterns) {
+    for (const track of song.melody.tracks) {
+      bytes.push(...encodeNotes(patternNotes(pattern, track.id)));
+    }
+    bytes.push(...encodeHits(pattern.hits));
+  }
+  return toBase64Url(bytes);
+}
+
+export function decodeShareCode(code: string): Song {
+  const reader = new ByteReader(fromBase64Url(code));
+  const format = reader.byte();
+  if (format !== SHARE_FORMAT) {
+    throw new SongFormatError(`Song link format ${format} is not supported`);
+  }
+
+  const { settings, tracks, patternNames, arrangement } = decodeHeader(reader);
+  const patterns: Pattern[] = patternNames.map((name) => {
+    const notes: Record<string, MelodyNote[]> = {};
+    for (const track of tracks) {
+      notes[String(track.id)] = decodeNotes(reader);
+    }
+    return { id: newId(), name, notes, hits: decodeHits(reader) };
+  });
+  if (!reader.done) {
+    throw new SongFormatError("Song link has unexpected data at the end");
+  }
+
+  // Checked like any song file, so a hand-edited link can't produce an invalid song
+  return validateSong(
+    migrateSong({
+      ...settings,
+      melody: { tracks },
+      patterns,
+      arrangement: arrangement.map(([patternIndex, repeats]) => ({
+        patternId: patterns[patternIndex]?.id,
+        repeats,
+      })),
+    })
+  );
+}
+
+// The song in `hash` (location.hash), or null when it doesn't carry one
+export function songFromHash(hash: string): Song | null {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  return decodeShareCode(hash.slice(SHARE_HASH_PREFIX.length));
+}
+
+function encodeHeader(song: Song): number[] {
+  const { constraints, melody, patterns, arrangement } = song;
+  const flags = bitmask([
+    constraints.allowAccidentals,
+    constraints.tempoLocked,
+    constraints.barsLocked,
+    constraints.drumsEnabled,
+    song.volume !== undefined,
+    song.scale !== undefined,
+    song.groove !== undefined,
+    song.mix !== undefined,
+    song.drumRows !== undefined,
+    song.assignment !== undefined,
+  ]);
+  const bytes = [
+    ...variableLength(Math.round(song.bpm * 100)),
+    song.stepsPerBeat,
+    song.beatsPerBar,
+    song.beatUnit,
+    ...variableLength(song.bars),
+    ...variableLength(flags),
+  ];
+  if (song.volume !== undefined) {
+    bytes.push(level(song.volume));
+  }
+  if (song.scale) {
+    bytes.push(PITCH_CLASSES.indexOf(song.scale.root), SCALE_MODES.indexOf(song.scale.mode));
+  }
+  if (song.groove) {
+    bytes.push(GROOVE_IDS.indexOf(song.groove.template), level(song.groove.amount));
+  }
+  if (song.mix) {
+    bytes.push(...encodeMix(song.mix));
+  }
+  if (song.drumRows) {
+    const rows = song.drumRows;
+    bytes.push(...variableLength(bitmask(DRUM_IDS.map((id) => rows.includes(id)))));
+  }
+  if (song.assignment) {
+    bytes.push(...text(song.assignment.title), ...text(song.assignment.instructions));
+  }
+
+  bytes.push(...variableLength(melody.tracks.length));
+  for (const track of melody.tracks) {
+    bytes.push(
+      ...text(track.name),
+      ...text(track.instrument),
+      noteNameToMidi(track.minNote),
+      noteNameToMidi(track.maxNote),
+      bitmask([track.muted, track.solo]),
+      level(track.volume)
+    );
+  }
+  bytes.push(...variableLength(patterns.length));
+  for (const pattern of patterns) {
+    bytes.push(...text(pattern.name));
+  }
+  bytes.push(...variableLength(arrangement.length));
+  for (const entry of arrangement) {
+    bytes.push(
+      ...variableLength(patterns.findIndex((p) => p.id === entry.patternId)),
+      ...variableLength(entry.repeats)
+    );
+  }
+  return bytes;
+}
+
+function decodeHeader(reader: ByteReader): ShareHeader {
+  const settings: Record<string, unknown> = {
+    version: HEADER_SONG_VERSION,
+    bpm: reader.variableLength() / 100,
+    stepsPerBeat: reader.byte(),
+    beatsPerBar: reader.byte(),
+    beatUnit: reader.byte(),
+    bars: reader.variableLength(),
+  };
+  const flags = reader.variableLength();
+  const flag = (bit: number) => (flags & (1 << bit)) !== 0;
+  settings.constraints = {
+    allowAccidentals: flag(0),
+    tempoLocked: flag(1),
+    barsLocked: flag(2),
+    drumsEnabled: flag(3),
+  };
+  // Out-of-range positions decode as undefined, which validateSong turns away
+  if (flag(4)) {
+    settings.volume = fromLevel(reader.byte());
+  }
+  if (flag(5)) {
+    settings.scale = { root: PITCH_CLASSES[reader.byte()], mode: SCALE_MODES[reader.byte()] };
+  }
+  if (flag(6)) {
+    settings.groove = { template: GROOVE_IDS[reader.byte()], amount: fromLevel(reader.byte()) };
+  }
+  if (flag(7)) {
+    settings.mix = decodeMix(reader);
+  }
+  if (flag(8)) {
+    const rows = reader.variableLength();
+    settings.drumRows = DRUM_IDS.filter((_id, bit) => (rows & (1 << bit)) !== 0);
+  }
+  if (flag(9)) {
+    settings.assignment = { title: reader.text(), instructions: reader.text() };
+  }
+
+  const tracks = repeat(reader.variableLength(), () => {
+    const name = reader.text();
+    const instrument = reader.text();
+    const minNote = midiToNoteName(reader.key());
+    const maxNote = midiToNoteName(reader.key());
+    const bits = reader.byte();
+    return {
+      id: newId(),
+      name,
+      instrument,
+      minNote,
+      maxNote,
+      muted: (bits & 1) !== 0,
+      solo: (bits & 2) !== 0,
+      volume: fromLevel(reader.byte()),
+    };
+  });
+  const patternNames = repeat(reader.variableLength(), () => reader.text());
+  const arrangement = repeat(reader.variableLength(), (): [number, number] => [
+    reader.variableLength(),
+    reader.variableLength(),
+  ]);
+  return { settings, tracks, patternNames, arrangement };
+}
+
+function encodeMix(mix: Mix): number[] {
+  return [
+    ...encodeBus(mix.melody),
+    ...encodeBus(mix.drums),
+    ...variableLength(Math.round(mix.reverbDecay * 100)),
+    ...variableLength(Math.round(mix.delayBeats * 1000)),
+    level(mix.delayFeedback),
+    ...variableLength(Math.round(mix.filterCutoff)),
+  ];
+}
+
+function decodeMix(reader: ByteReader): Mix {
+  return {
+    melody: decodeBus(reader),
+    drums: decodeBus(reader),
+    reverbDecay: reader.variableLength() / 100,
+    delayBeats: reader.variableLength() / 1000,
+    delayFeedback: fromLevel(reader.byte()),
+    filterCutoff: reader.variableLength(),
+  };
+}
+
+// Pan is kept as a level from hard left (0) to hard right (2 × LEVELS)
+function encodeBus(bus: Bus): number[] {
+  return [
+    level(bus.volume),
+    Math.round((Math.max(-1, Math.min(1, bus.pan)) + 1) * LEVELS),
+    bus.muted ? 1 : 0,
+    level(bus.reverb),
+    level(bus.delay),
+  ];
+}
+
+function decodeBus(reader: ByteReader): Bus {
+  return {
+    volume: fromLevel(reader.byte()),
+    pan: reader.byte() / LEVELS - 1,
+    muted: reader.byte() !== 0,
+    reverb: fromLevel(reader.byte()),
+    delay: fromLevel(reader.byte()),
+  };
+}
+
+function encodeNotes(notes: MelodyNote[]): number[] {
+  const sorted = [...notes].sort(
+    (a, b) => a.startStep - b.startStep || noteNameToMidi(a.note) - noteNameToMidi(b.note)
+  );
+  const bytes = variableLength(sorted.length);
+  let previous = 0;
+  for (const note of sorted) {
+    bytes.push(
+      ...variableLength(note.startStep - previous),
+      noteNameToMidi(note.note),
+      ...variableLength(note.durationSteps),
+      velocityByte(note.velocity)
+    );
+    previous = note.startStep;
+  }
+  return bytes;
+}
+
+function decodeNotes(reader: ByteReader): MelodyNote[] {
+  const notes: MelodyNote[] = [];
+  const count = reader.variableLength();
+  let startStep = 0;
+  for (let i = 0; i < count; i++) {
+    startStep += reader.variableLength();
+    const key = reader.key();
+    const note: MelodyNote = {
+      id: newId(),
+      startStep,
+      durationSteps: reader.variableLength(),
+      note: midiToNoteName(key),
+    };
+    const velocity = fromVelocityByte(reader.byte());
+    if (velocity !== undefined) note.velocity = velocity;
+    notes.push(note);
+  }
+  return notes;
+}
+
+function encodeHits(hits: DrumHit[]): number[] {
+  const byStep = new Map<number, DrumHit[]>();
+  for (const hit of hits) {
+    byStep.set(hit.step, [...(byStep.get(hit.step) ?? []), hit]);
+  }
+  const steps = [...byStep.keys()].sort((a, b) => a - b);
+
+  const bytes = variableLength(steps.length);
+  let previous = 0;
+  for (const step of steps) {
+    const stepHits = byStep.get(step) ?? [];
+    let mask = 0;
+    const velocities: number[] = [];
+    DRUM_IDS.forEach((drumId, bit) => {
+      const hit = stepHits.find((h) => h.drumId === drumId);
+      if (!hit) return;
+      mask |= 1 << bit;
+      velocities.push(velocityByte(hit.velocity));
+    });
+    bytes.push(...variableLength(step - previous), ...variableLength(mask), ...velocities);
+    previous = step;
+  }
+  return bytes;
+}
+
+function decodeHits(reader: ByteReader): DrumHit[] {
+  const hits: DrumHit[] = [];
+  const count = reader.variableLength();
+  let step = 0;
+  for (let i = 0; i < count; i++) {
+    step += reader.variableLength();
+    const mask = reader.variableLength();
+    if (mask >= 1 << DRUM_IDS.length) {
+      throw new SongFormatError("Song link has an unknown drum");
+    }
+    DRUM_IDS.forEach((drumId, bit) => {
+      if ((mask & (1 << bit)) === 0) return;
+      const hit: DrumHit = { id: newId(), step, drumId };
+      const velocity = fromVelocityByte(reader.byte());
+      if (velocity !== undefined) hit.velocity = velocity;
+      hits.push(hit);
+    });
+  }
+  return hits;
+}
+
+function level(value: number): number {
+  return Math.round(Math.max(0, Math.min(1, value)) * LEVELS);
+}
+
+function fromLevel(value: number): number {
+  return value / LEVELS;
+}
+
+function velocityByte(velocity?: number): number {
+  return velocity === undefined ? 0 : 1 + level(velocity);
+}
+
+function fromVelocityByte(value: number): number | undefined {
+  return value === 0 ? undefined : Math.min(1, fromLevel(value - 1));
+}
+
+function bitmask(bits: boolean[]): number {
+  return bits.reduce((mask, bit, i) => (bit ? mask | (1 << i) : mask), 0);
+}
+
+function text(value: string): number[] {
+  const bytes = Array.from(new TextEncoder().encode(value));
+  return [...variableLength(bytes.length), ...bytes];
+}
+
+// Reads `count` items; a damaged count runs out of data instead of allocating it all up front
+function repeat<T>(count: number, read: () => T): T[] {
+  const items: T[] = [];
+  for (let i = 0; i < count; i++) {
+    items.push(read());
+  }
+  return items;
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+}
+
+function toBase64Url(bytes: number[]): string {
+  return btoa(bytes.map((b) => String.fromCharCode(b)).join(""))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    throw new SongFormatError("Song link is damaged");
+  }
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+class ByteReader {
+  private pos = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  get done(): boolean {
+    return this.pos >= this.data.length;
+  }
+
+  byte(): number {
+    if (this.pos >= this.data.length) {
+      throw new SongFormatError("Song link is cut short");
+    }
+    return this.data[this.pos++];
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.pos + length > this.data.length) {
+      throw new SongFormatError("Song link is cut short");
+    }
+    this.pos += length;
+    return this.data.subarray(this.pos - length, this.pos);
+  }
+
+  key(): number {
+    const key = this.byte();
+    if (key > 127) {
+      throw new SongFormatError("Song link has a note outside the MIDI range");
+    }
+    return key;
+  }
+
+  text(): string {
+    return new TextDecoder().decode(this.bytes(this.variableLength()));
+  }
+
+  variableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.byte();
+      value = (value << 7) | (b & 0x7f);
+      if ((b & 0x80) === 0) return value;
+    }
+    throw new SongFormatError("Song link has a number longer than 4 bytes");
+  }
+}
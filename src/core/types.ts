@@ -1,8 +1,20 @@
 export type NoteName = string;
 
-export type InstrumentId = "pianica" | "piano" | "sine";
+// Any id registered in instruments.ts; songs naming another are turned away on load
+export type InstrumentId = string;
 
-export type DrumId = "kick" | "snare" | "hihat";
+export const DRUM_IDS = [
+  "kick",
+  "snare",
+  "hihat",
+  "openhat",
+  "clap",
+  "tom",
+  "rim",
+  "cowbell",
+] as const;
+
+export type DrumId = (typeof DRUM_IDS)[number];
 
 export type MelodyNote = {
   id: string;
@@ -16,24 +28,150 @@ export type DrumHit = {
   id: string;
   step: number;
   drumId: DrumId;
+  velocity?: number;
 };
 
-export type Constraints = {
+// One melodic part (melody, bass, second voice of a round...) with its own sound and rows
+export type MelodyTrack = {
+  id: string;
+  name: string;
+  instrument: InstrumentId;
   minNote: NoteName;
   maxNote: NoteName;
+  muted: boolean;
+  solo: boolean;
+  volume: number; // 0-1
+};
+
+// A reusable section (verse, chorus...) `song.bars` long, holding notes for every track
+export type Pattern = {
+  id: string;
+  name: string;
+  notes: Record<string, MelodyNote[]>; // by track id; a track without an entry has no notes
+  hits: DrumHit[];
+};
+
+// Notes of one track and drum hits of one pattern, picked out for editing together
+export type Selection = {
+  noteIds: string[];
+  hitIds: string[];
+};
+
+// Copied notes and hits; steps count from the start of the copied range
+export type Clip = {
+  steps: number;
+  notes: MelodyNote[];
+  hits: DrumHit[];
+};
+
+// One block of the timeline: a pattern played `repeats` times in a row
+export type ArrangementEntry = {
+  patternId: string;
+  repeats: number;
+};
+
+export type Constraints = {
   allowAccidentals: boolean;
   tempoLocked: boolean;
   barsLocked: boolean;
   drumsEnabled: boolean;
 };
 
+export type BeatUnit = 4 | 8;
+
+export const PITCH_CLASSES = [
+  "C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B",
+] as const;
+
+export type PitchClass = (typeof PITCH_CLASSES)[number];
+
+export const SCALE_MODES = [
+  "major",
+  "minor",
+  "dorian",
+  "phrygian",
+  "lydian",
+  "mixolydian",
+  "locrian",
+  "major-pentatonic",
+  "minor-pentatonic",
+  "blues",
+  "chromatic",
+] as const;
+
+export type ScaleMode = (typeof SCALE_MODES)[number];
+
+export type Scale = {
+  root: PitchClass;
+  mode: ScaleMode;
+};
+
+export const GROOVE_IDS = [
+  "shuffle",
+  "mpc-54",
+  "mpc-58",
+  "mpc-62",
+  "mpc-66",
+  "mpc-71",
+  "mpc-75",
+] as const;
+
+export type GrooveId = (typeof GROOVE_IDS)[number];
+
+// Timing and accent feel applied at play time; notes stay on the grid
+export type Groove = {
+  template: GrooveId;
+  amount: number; // 0-1, scales the template's offsets
+};
+
+export const BUS_IDS = ["melody", "drums"] as const;
+
+export type BusId = (typeof BUS_IDS)[number];
+
+// One mixer channel; every melody track plays through the melody bus
+export type Bus = {
+  volume: number; // 0-1
+  pan: number; // -1 (left) to 1 (right)
+  muted: boolean;
+  reverb: number; // send level, 0-1
+  delay: number; // send level, 0-1
+};
+
+export type Mix = {
+  melody: Bus;
+  drums: Bus;
+  reverbDecay: number; // seconds
+  delayBeats: number; // echo spacing, follows the tempo
+  delayFeedback: number; // 0-1, share of each echo fed back
+  filterCutoff: number; // Hz, master low-pass
+};
+
+// Present on songs published from teacher mode; such files open in student mode
+export type Assignment = {
+  title: string;
+  instructions: string;
+};
+
 export type Song = {
-  version: 1;
-  bpm: number;
+  version: 4;
+  bpm: number; // beats (of beatUnit) per minute
   stepsPerBeat: number;
-  bars: number;
-  instrument: InstrumentId;
+  beatsPerBar: number;
+  beatUnit: BeatUnit;
+  bars: number; // length of every pattern
+  volume?: number; // master volume, 0-1
   constraints: Constraints;
-  melody: { notes: MelodyNote[] };
-  drums: { hits: DrumHit[] };
+  // Decides which rows the grid shows; without it the grid is white keys or chromatic
+  scale?: Scale;
+  // Without it the song plays straight
+  groove?: Groove;
+  // Without it both buses play dry at full volume
+  mix?: Mix;
+  // Drum rows the grid shows, top to bottom; defaults to hihat, snare, kick
+  drumRows?: DrumId[];
+  assignment?: Assignment;
+  melody: { tracks: MelodyTrack[] };
+  patterns: Pattern[];
+  // Played top to bottom, then from the start again
+  arrangement: ArrangementEntry[];
 };
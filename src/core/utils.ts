@@ -1,11 +1,34 @@
-import type { NoteName, Song } from "./types";
+import type { MelodyNote, MelodyTrack, NoteName, Pattern, Song } from "./types";
 
 export function clamp(n: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, n));
 }
 
-export function totalSteps(song: Song): number {
-  return song.bars * 4 * song.stepsPerBeat;
+export function stepsPerBar(song: Pick<Song, "beatsPerBar" | "stepsPerBeat">): number {
+  return song.beatsPerBar * song.stepsPerBeat;
+}
+
+export function totalSteps(song: Pick<Song, "bars" | "beatsPerBar" | "stepsPerBeat">): number {
+  return song.bars * stepsPerBar(song);
+}
+
+export function findTrack(song: Song, trackId: string): MelodyTrack | undefined {
+  return song.melody.tracks.find((t) => t.id === trackId);
+}
+
+export function findPattern(song: Song, patternId: string): Pattern | undefined {
+  return song.patterns.find((p) => p.id === patternId);
+}
+
+export function patternNotes(pattern: Pattern, trackId: string): MelodyNote[] {
+  return pattern.notes[trackId] ?? [];
+}
+
+// Any soloed track silences every track that isn't soloed
+export function audibleTracks(song: Song): MelodyTrack[] {
+  const { tracks } = song.melody;
+  const soloed = tracks.some((t) => t.solo);
+  return tracks.filter((t) => (soloed ? t.solo : !t.muted));
 }
 
 export function normalizeDuration(
@@ -68,6 +91,11 @@ export function isWhiteKey(midi: number): boolean {
   return WHITE_KEYS.includes(midi % 12);
 }
 
+// Canonical spelling used throughout the song model: sharps only ("Bb4" -> "A#4")
+export function normalizeNoteName(note: NoteName): NoteName {
+  return midiToNoteName(noteNameToMidi(note));
+}
+
 export function transposeNoteName(
   note: NoteName,
   semitones: number,
@@ -100,3 +128,27 @@ export function clampNoteName(
 // Absolute bounds for pitch range
 export const PITCH_RANGE_MIN = "C2";
 export const PITCH_RANGE_MAX = "C7";
+
+// Note/hit loudness (0-1); notes without a velocity play at the default
+export const DEFAULT_VELOCITY = 0.8;
+export const MIN_VELOCITY = 0.1;
+
+export function velocityOf(item: { velocity?: number }): number {
+  return item.velocity ?? DEFAULT_VELOCITY;
+}
+
+// Absolute bounds for tempo
+export const MIN_BPM = 40;
+export const MAX_BPM = 200;
+
+// Absolute bounds for song length
+export const MIN_BARS = 1;
+export const MAX_BARS = 64;
+
+// Melody tracks per song; each exports to its own MIDI channel
+export const MAX_TRACKS = 8;
+
+// Bounds for patterns and the arrangement that sequences them
+export const MAX_PATTERNS = 16;
+export const MAX_ARRANGEMENT_ENTRIES = 32;
+export const MAX_REPEATS = 16;
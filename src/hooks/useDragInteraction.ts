@@ -1,32 +1,117 @@
 import { useRef, useState, useCallback } from "react";
 import type { RefObject } from "react";
-import type { DrumId, MelodyNote, NoteName } from "@/core/types";
+import type { DrumHit, DrumId, MelodyNote, NoteName } from "@/core/types";
+import { clamp, MIN_VELOCITY, velocityOf } from "@/core/utils";
+import type { GridPoint } from "@/ui/grid";
+import { nearestZoom } from "@/ui/grid";
+import type { NoteGesture } from "@/ui/noteDrag";
+import {
+  DRAG_THRESHOLD,
+  dragNote,
+  grabZone,
+  isTap,
+  isVerticalDrag,
+  pressNote,
+  VELOCITY_DRAG_PIXELS,
+} from "@/ui/noteDrag";
 
-const DRAG_THRESHOLD = 5;
-const CELL_WIDTH = 40;
-
-// Pending interaction recorded on touch/mouse start (before we know if it's tap or drag)
+// Press on an empty melody cell: a tap adds a note, a sideways drag draws a longer one
 interface PendingInteraction {
   clientX: number;
+  clientY: number;
   noteName: NoteName;
   step: number;
-  existingNote: MelodyNote | null;
+  velocity?: number; // from pen pressure
 }
 
-// Active drag state (only set after threshold is crossed)
+// Pressing an existing drum hit: a tap removes it, a vertical drag changes its velocity
+interface PendingDrumInteraction {
+  clientX: number;
+  clientY: number;
+  drumId: DrumId;
+  step: number;
+  hit: DrumHit;
+}
+
+// Drawing a new note (only set after threshold is crossed)
 interface DragState {
   noteId: string;
   startStep: number;
 }
 
+// Vertical drag on an existing hit; dragging up makes it louder
+interface VelocityDragState {
+  hitId: string;
+  clientY: number;
+  velocity: number;
+}
+
+// Rectangle selection, or dragging the selection along; both report grid points
+interface SelectDragState {
+  kind: "rect" | "move";
+  clientX: number;
+  clientY: number;
+  from: GridPoint;
+  moved: boolean;
+}
+
+// Two fingers on the grid: they scroll it sideways and pinch to zoom
+interface PinchState {
+  distance: number;
+  zoom: number;
+  midX: number;
+}
+
+// Read from the DOM on every use, so CSS cell sizes and zoom levels can't put the math off
+interface GridGeometry {
+  left: number;
+  cellWidth: number;
+  rows: DOMRect[];
+}
+
+function measureGrid(grid: HTMLElement): GridGeometry | null {
+  const cell = grid.querySelector(".grid-row .cell");
+  const rows = Array.from(grid.querySelectorAll(".grid-row"), (r) => r.getBoundingClientRect());
+  if (!cell || rows.length === 0) return null;
+  const { left, width } = cell.getBoundingClientRect();
+  return { left, cellWidth: width, rows };
+}
+
+// Pen pressure sets how hard new notes are; mice and fingers use the default velocity
+function penVelocity(e: React.PointerEvent): number | undefined {
+  if (e.pointerType !== "pen" || e.pressure <= 0) return undefined;
+  return clamp(e.pressure, MIN_VELOCITY, 1);
+}
+
+function touchDistance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
 interface UseDragInteractionOptions {
   gridRef: RefObject<HTMLDivElement | null>;
   gridContainerRef: RefObject<HTMLDivElement | null>;
-  onNoteCreate: (noteName: NoteName, step: number) => string | null;
+  onNoteCreate: (noteName: NoteName, step: number, velocity?: number) => string | null;
   onNoteRemove: (noteId: string) => void;
-  onNoteDurationChange: (noteId: string, duration: number) => void;
+  // Drags report where the note should be relative to where it was when pressed
+  onNoteResize: (noteId: string, startStep: number, durationSteps: number) => void;
+  onNoteMove: (noteId: string, startStep: number, rows: number) => void;
+  onNoteVelocityChange: (noteId: string, velocity: number) => void;
   onDrumToggle: (drumId: DrumId, step: number) => void;
+  onDrumVelocityChange: (hitId: string, velocity: number) => void;
   findNoteAt: (noteName: NoteName, step: number) => MelodyNote | null;
+  findDrumHitAt: (drumId: DrumId, step: number) => DrumHit | null;
+  // In select mode (or with Shift held) presses select instead of drawing
+  selectMode: boolean;
+  isSelected: (id: string) => boolean;
+  onSelectRect: (from: GridPoint, to: GridPoint) => void;
+  // Distance from where the drag started, in steps and rows (down is positive)
+  onSelectionMove: (steps: number, rows: number) => void;
+  // Horizontal zoom of the grid, changed by pinching
+  zoom: number;
+  onZoomChange: (zoom: number) => void;
+  // Bracket a whole tap/drag so callers can treat it as a single edit
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
 }
 
 export function useDragInteraction({
@@ -34,9 +119,21 @@ export function useDragInteraction({
   gridContainerRef,
   onNoteCreate,
   onNoteRemove,
-  onNoteDurationChange,
+  onNoteResize,
+  onNoteMove,
+  onNoteVelocityChange,
   onDrumToggle,
+  onDrumVelocityChange,
   findNoteAt,
+  findDrumHitAt,
+  selectMode,
+  isSelected,
+  onSelectRect,
+  onSelectionMove,
+  zoom,
+  onZoomChange,
+  onGestureStart,
+  onGestureEnd,
 }: UseDragInteractionOptions) {
   // State for CSS (triggers re-render)
   const [isDragging, setIsDragging] = useState(false);
@@ -44,192 +141,370 @@ export function useDragInteraction({
   // Refs for synchronous access (no stale closure issues)
   const pendingRef = useRef<PendingInteraction | null>(null);
   const dragRef = useRef<DragState | null>(null);
-  const touchCountRef = useRef(0);
-  const lastTouchXRef = useRef(0);
-  // Timestamp to prevent synthetic mouse events after touch
-  const lastInteractionEndRef = useRef(0);
+  const noteGestureRef = useRef<NoteGesture | null>(null);
+  const pendingDrumRef = useRef<PendingDrumInteraction | null>(null);
+  const velocityRef = useRef<VelocityDragState | null>(null);
+  const selectRef = useRef<SelectDragState | null>(null);
+  // The pointer driving the current tap or drag; other pointers are ignored until it lifts
+  const activePointerRef = useRef<number | null>(null);
+  const touchesRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<PinchState | null>(null);
+
+  // The grid cell under a point; rows are the grid's rows top to bottom, melody then drums.
+  // `offset` is how far across the cell the point is, 0 (left) to 1 (right).
+  const locate = useCallback(
+    (clientX: number, clientY: number): { point: GridPoint; offset: number } | null => {
+      const geometry = gridRef.current && measureGrid(gridRef.current);
+      if (!geometry) return null;
+      const position = (clientX - geometry.left) / geometry.cellWidth;
+      const step = Math.max(0, Math.floor(position));
+      let row = geometry.rows.findIndex((r) => clientY < r.bottom);
+      if (row < 0) row = geometry.rows.length - 1;
+      return { point: { row, step }, offset: Math.max(0, position - step) };
+    },
+    [gridRef]
+  );
+
+  const pointAt = useCallback(
+    (clientX: number, clientY: number): GridPoint | null =>
+      locate(clientX, clientY)?.point ?? null,
+    [locate]
+  );
+
+  const startSelectInteraction = useCallback(
+    (clientX: number, clientY: number, onSelected: boolean) => {
+      const from = pointAt(clientX, clientY);
+      if (!from) return;
+      const kind = onSelected ? "move" : "rect";
+      selectRef.current = { kind, clientX, clientY, from, moved: false };
+      onGestureStart?.();
+    },
+    [pointAt, onGestureStart]
+  );
 
   // Start potential interaction (tap or drag - we don't know yet)
   const startInteraction = useCallback(
-    (clientX: number, noteName: NoteName, step: number, isTouch: boolean) => {
-      // Ignore synthetic mouse events that fire shortly after touch events
-      if (!isTouch && Date.now() - lastInteractionEndRef.current < 300) {
+    (
+      clientX: number,
+      clientY: number,
+      noteName: NoteName,
+      step: number,
+      shiftKey: boolean = false,
+      velocity?: number
+    ) => {
+      const existingNote = findNoteAt(noteName, step);
+      dragRef.current = null;
+      velocityRef.current = null;
+      // Selected notes are dragged as a group in either mode
+      const onSelected = !!existingNote && isSelected(existingNote.id);
+      if (selectMode || shiftKey || onSelected) {
+        startSelectInteraction(clientX, clientY, onSelected);
         return;
       }
+      if (existingNote) {
+        const located = locate(clientX, clientY);
+        if (!located) return;
+        const grab = grabZone(existingNote, step, located.offset);
+        noteGestureRef.current = pressNote(existingNote, grab, clientX, clientY, located.point);
+      } else {
+        pendingRef.current = { clientX, clientY, noteName, step, velocity };
+      }
+      onGestureStart?.();
+    },
+    [
+      locate,
+      findNoteAt,
+      selectMode,
+      isSelected,
+      startSelectInteraction,
+      onGestureStart,
+    ]
+  );
 
-      const existingNote = findNoteAt(noteName, step);
-      pendingRef.current = { clientX, noteName, step, existingNote };
-      dragRef.current = null;
+  // Drum cells toggle on press, except existing hits, which wait to see if this is a velocity drag
+  const startDrumInteraction = useCallback(
+    (
+      clientX: number,
+      clientY: number,
+      drumId: DrumId,
+      step: number,
+      shiftKey: boolean = false
+    ) => {
+      const hit = findDrumHitAt(drumId, step);
+      velocityRef.current = null;
+      const onSelected = !!hit && isSelected(hit.id);
+      if (selectMode || shiftKey || onSelected) {
+        startSelectInteraction(clientX, clientY, onSelected);
+        return;
+      }
+      if (!hit) {
+        onDrumToggle(drumId, step);
+        return;
+      }
+      pendingDrumRef.current = { clientX, clientY, drumId, step, hit };
+      onGestureStart?.();
     },
-    [findNoteAt]
+    [findDrumHitAt, selectMode, isSelected, startSelectInteraction, onDrumToggle, onGestureStart]
   );
 
   // Handle movement - may transition to drag mode
   const handleMove = useCallback(
-    (clientX: number) => {
-      const pending = pendingRef.current;
-      if (!pending || !gridRef.current) return;
+    (clientX: number, clientY: number) => {
+      const selectDrag = selectRef.current;
+      if (selectDrag) {
+        if (
+          !selectDrag.moved &&
+          Math.abs(clientX - selectDrag.clientX) < DRAG_THRESHOLD &&
+          Math.abs(clientY - selectDrag.clientY) < DRAG_THRESHOLD
+        ) {
+          return;
+        }
+        const point = pointAt(clientX, clientY);
+        if (!point) return;
+        selectDrag.moved = true;
+        setIsDragging(true);
+        if (selectDrag.kind === "rect") {
+          onSelectRect(selectDrag.from, point);
+        } else {
+          onSelectionMove(point.step - selectDrag.from.step, point.row - selectDrag.from.row);
+        }
+        return;
+      }
 
-      const deltaX = clientX - pending.clientX;
+      const velocityDrag = velocityRef.current;
+      if (velocityDrag) {
+        const velocity =
+          velocityDrag.velocity + (velocityDrag.clientY - clientY) / VELOCITY_DRAG_PIXELS;
+        onDrumVelocityChange(velocityDrag.hitId, velocity);
+        return;
+      }
 
-      // Already in drag mode - update duration
+      const pendingDrum = pendingDrumRef.current;
+      if (pendingDrum) {
+        if (isVerticalDrag(clientX - pendingDrum.clientX, clientY - pendingDrum.clientY)) {
+          velocityRef.current = {
+            hitId: pendingDrum.hit.id,
+            clientY: pendingDrum.clientY,
+            velocity: velocityOf(pendingDrum.hit),
+          };
+          setIsDragging(true);
+        }
+        return;
+      }
+
+      // Existing notes: the gesture decides between moving, resizing and velocity
+      const noteGesture = noteGestureRef.current;
+      if (noteGesture) {
+        const point = pointAt(clientX, clientY);
+        if (!point) return;
+        const { gesture, edit } = dragNote(noteGesture, clientX, clientY, point);
+        noteGestureRef.current = gesture;
+        if (!edit) return;
+        setIsDragging(true);
+        const noteId = gesture.note.id;
+        if (edit.kind === "move") {
+          onNoteMove(noteId, edit.startStep, edit.rows);
+        } else if (edit.kind === "resize") {
+          onNoteResize(noteId, edit.startStep, edit.durationSteps);
+        } else {
+          onNoteVelocityChange(noteId, edit.velocity);
+        }
+        return;
+      }
+
+      const pending = pendingRef.current;
+      if (!pending) return;
+
+      // Already drawing - update duration
       if (dragRef.current) {
-        const gridRect = gridRef.current.getBoundingClientRect();
-        const relativeX = clientX - gridRect.left;
-        const currentStep = Math.floor(relativeX / CELL_WIDTH);
-        const newDuration = Math.max(1, currentStep - dragRef.current.startStep + 1);
-        onNoteDurationChange(dragRef.current.noteId, newDuration);
+        const point = pointAt(clientX, clientY);
+        if (!point) return;
+        const newDuration = Math.max(1, point.step - dragRef.current.startStep + 1);
+        onNoteResize(dragRef.current.noteId, dragRef.current.startStep, newDuration);
         return;
       }
 
-      // Check if we should enter drag mode
-      if (Math.abs(deltaX) >= DRAG_THRESHOLD) {
-        // Transition to drag mode
-        if (pending.existingNote && pending.step === pending.existingNote.startStep) {
-          // Extending existing note from its start
+      // A sideways drag from an empty cell creates the note and keeps drawing it
+      if (Math.abs(clientX - pending.clientX) >= DRAG_THRESHOLD) {
+        const noteId = onNoteCreate(pending.noteName, pending.step, pending.velocity);
+        if (noteId) {
           dragRef.current = {
-            noteId: pending.existingNote.id,
-            startStep: pending.existingNote.startStep,
+            noteId,
+            startStep: pending.step,
           };
           setIsDragging(true);
-        } else if (!pending.existingNote) {
-          // Creating new note and dragging
-          const noteId = onNoteCreate(pending.noteName, pending.step);
-          if (noteId) {
-            dragRef.current = {
-              noteId,
-              startStep: pending.step,
-            };
-            setIsDragging(true);
-          }
         }
-        // If clicking on middle/end of existing note, don't enter drag mode
       }
     },
-    [gridRef, onNoteCreate, onNoteDurationChange]
+    [
+      pointAt,
+      onSelectRect,
+      onSelectionMove,
+      onNoteCreate,
+      onNoteResize,
+      onNoteMove,
+      onNoteVelocityChange,
+      onDrumVelocityChange,
+    ]
   );
 
   // End interaction - finalize as tap or drag
   const endInteraction = useCallback(() => {
     const pending = pendingRef.current;
+    const pendingDrum = pendingDrumRef.current;
     const drag = dragRef.current;
+    const velocityDrag = velocityRef.current;
+    const selectDrag = selectRef.current;
+    const noteGesture = noteGestureRef.current;
 
+    // A tap while selecting picks out just what is under it (or clears the selection)
+    if (selectDrag && !selectDrag.moved) {
+      onSelectRect(selectDrag.from, selectDrag.from);
+    }
+
+    if (pendingDrum && !velocityDrag) {
+      onDrumToggle(pendingDrum.drumId, pendingDrum.step);
+    }
+
+    // Tap on existing note - delete it
+    if (noteGesture && isTap(noteGesture)) {
+      onNoteRemove(noteGesture.note.id);
+    }
+
+    // Tap on empty cell - create short note
     if (pending && !drag) {
-      // No drag occurred - this is a tap
-      if (pending.existingNote) {
-        // Tap on existing note - delete it
-        onNoteRemove(pending.existingNote.id);
-      } else {
-        // Tap on empty cell - create short note
-        onNoteCreate(pending.noteName, pending.step);
-      }
+      onNoteCreate(pending.noteName, pending.step, pending.velocity);
     }
-    // If drag occurred, note is already created/extended - nothing more to do
+    // If drag occurred, note is already created/edited - nothing more to do
 
     // Reset state
     pendingRef.current = null;
+    pendingDrumRef.current = null;
     dragRef.current = null;
+    noteGestureRef.current = null;
+    velocityRef.current = null;
+    selectRef.current = null;
+    activePointerRef.current = null;
     setIsDragging(false);
-    lastInteractionEndRef.current = Date.now();
-  }, [onNoteCreate, onNoteRemove]);
+    if (pending || pendingDrum || selectDrag || noteGesture) {
+      onGestureEnd?.();
+    }
+  }, [onNoteCreate, onNoteRemove, onDrumToggle, onSelectRect, onGestureEnd]);
 
   // Cancel interaction without finalizing
   const cancelInteraction = useCallback(() => {
+    const pending = pendingRef.current;
+    const pendingDrum = pendingDrumRef.current;
+    const selectDrag = selectRef.current;
+    const noteGesture = noteGestureRef.current;
     pendingRef.current = null;
+    pendingDrumRef.current = null;
     dragRef.current = null;
+    noteGestureRef.current = null;
+    velocityRef.current = null;
+    selectRef.current = null;
+    activePointerRef.current = null;
     setIsDragging(false);
-  }, []);
-
-  // Multi-touch scroll helpers
-  const initMultiTouchScroll = useCallback((clientX: number) => {
-    lastTouchXRef.current = clientX;
-  }, []);
-
-  const handleMultiTouchScroll = useCallback(
-    (clientX: number) => {
-      if (!gridContainerRef.current) return;
-      const deltaX = lastTouchXRef.current - clientX;
-      gridContainerRef.current.scrollLeft += deltaX;
-      lastTouchXRef.current = clientX;
+    if (pending || pendingDrum || selectDrag || noteGesture) {
+      onGestureEnd?.();
+    }
+  }, [onGestureEnd]);
+
+  const startPinch = useCallback(() => {
+    const [a, b] = Array.from(touchesRef.current.values());
+    pinchRef.current = { distance: touchDistance(a, b), zoom, midX: (a.x + b.x) / 2 };
+  }, [zoom]);
+
+  const handlePinch = useCallback(() => {
+    const pinch = pinchRef.current;
+    const [a, b] = Array.from(touchesRef.current.values());
+    if (!pinch || !a || !b) return;
+    const midX = (a.x + b.x) / 2;
+    if (gridContainerRef.current) {
+      gridContainerRef.current.scrollLeft += pinch.midX - midX;
+    }
+    pinch.midX = midX;
+    const next = nearestZoom((pinch.zoom * touchDistance(a, b)) / pinch.distance);
+    if (next !== zoom) {
+      onZoomChange(next);
+    }
+  }, [gridContainerRef, zoom, onZoomChange]);
+
+  // Every press captures its pointer on the grid, so moves and releases arrive even when they
+  // leave it. Returns false when the press became the second finger of a pinch instead.
+  const capturePointer = useCallback(
+    (e: React.PointerEvent): boolean => {
+      e.preventDefault();
+      gridRef.current?.setPointerCapture(e.pointerId);
+      if (e.pointerType === "touch") {
+        touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (touchesRef.current.size >= 2) {
+          cancelInteraction();
+          startPinch();
+          return false;
+        }
+      }
+      if (activePointerRef.current !== null) return false;
+      activePointerRef.current = e.pointerId;
+      return true;
     },
-    [gridContainerRef]
+    [gridRef, cancelInteraction, startPinch]
   );
 
   // Melody cell handlers
   const getMelodyCellHandlers = useCallback(
     (noteName: NoteName, step: number) => ({
-      onMouseDown: (e: React.MouseEvent) => {
-        e.preventDefault();
-        startInteraction(e.clientX, noteName, step, false);
-      },
-      onTouchStart: (e: React.TouchEvent) => {
-        e.preventDefault();
-        touchCountRef.current = e.touches.length;
-        if (e.touches.length === 1) {
-          startInteraction(e.touches[0].clientX, noteName, step, true);
-        } else if (e.touches.length >= 2) {
-          cancelInteraction();
-          initMultiTouchScroll(e.touches[0].clientX);
-        }
+      onPointerDown: (e: React.PointerEvent) => {
+        if (!capturePointer(e)) return;
+        startInteraction(e.clientX, e.clientY, noteName, step, e.shiftKey, penVelocity(e));
       },
     }),
-    [startInteraction, cancelInteraction, initMultiTouchScroll]
+    [capturePointer, startInteraction]
   );
 
   // Drum cell handlers
   const getDrumCellHandlers = useCallback(
     (drumId: DrumId, step: number) => ({
-      onMouseDown: (e: React.MouseEvent) => {
-        e.preventDefault();
-        // Ignore synthetic mouse events after touch
-        if (Date.now() - lastInteractionEndRef.current < 300) {
-          return;
-        }
-        onDrumToggle(drumId, step);
-      },
-      onTouchStart: (e: React.TouchEvent) => {
-        e.preventDefault();
-        touchCountRef.current = e.touches.length;
-        if (e.touches.length === 1) {
-          onDrumToggle(drumId, step);
-          lastInteractionEndRef.current = Date.now();
-        } else if (e.touches.length >= 2) {
-          initMultiTouchScroll(e.touches[0].clientX);
+      onPointerDown: (e: React.PointerEvent) => {
+        if (!capturePointer(e)) return;
+        startDrumInteraction(e.clientX, e.clientY, drumId, step, e.shiftKey);
+        // Drum presses that toggled straight away have nothing left to follow
+        if (!pendingDrumRef.current && !selectRef.current) {
+          activePointerRef.current = null;
         }
       },
     }),
-    [onDrumToggle, initMultiTouchScroll]
+    [capturePointer, startDrumInteraction]
   );
 
+  const releasePointer = (e: React.PointerEvent, finish: () => void) => {
+    touchesRef.current.delete(e.pointerId);
+    if (pinchRef.current) {
+      if (touchesRef.current.size < 2) pinchRef.current = null;
+      return;
+    }
+    if (e.pointerId === activePointerRef.current) {
+      finish();
+    }
+  };
+
   // Container handlers
   const containerHandlers = {
-    onMouseMove: (e: React.MouseEvent) => {
-      handleMove(e.clientX);
-    },
-    onMouseUp: () => {
-      endInteraction();
-    },
-    onMouseLeave: () => {
-      cancelInteraction();
-    },
-    onTouchMove: (e: React.TouchEvent) => {
-      if (e.touches.length === 1 && pendingRef.current) {
-        handleMove(e.touches[0].clientX);
-      } else if (e.touches.length >= 2) {
-        handleMultiTouchScroll(e.touches[0].clientX);
+    onPointerMove: (e: React.PointerEvent) => {
+      if (touchesRef.current.has(e.pointerId)) {
+        touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
       }
-    },
-    onTouchEnd: (e: React.TouchEvent) => {
-      if (touchCountRef.current === 1) {
-        endInteraction();
+      if (pinchRef.current) {
+        handlePinch();
+      } else if (e.pointerId === activePointerRef.current) {
+        handleMove(e.clientX, e.clientY);
       }
-      touchCountRef.current = e.touches.length;
     },
-    onTouchCancel: (e: React.TouchEvent) => {
-      if (touchCountRef.current === 1) {
-        cancelInteraction();
-      }
-      touchCountRef.current = e.touches.length;
+    onPointerUp: (e: React.PointerEvent) => {
+      releasePointer(e, endInteraction);
+    },
+    onPointerCancel: (e: React.PointerEvent) => {
+      releasePointer(e, cancelInteraction);
     },
   };
 
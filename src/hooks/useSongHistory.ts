@@ -0,0 +1,55 @@
+import { useCallback, useReducer } from "react";
+import type { SetStateAction } from "react";
+import type { Song } from "@/core/types";
+import type { History } from "@/core/history";
+import { beginGesture, commit, createHistory, endGesture, redo, undo } from "@/core/history";
+
+type HistoryAction =
+  | { type: "set"; update: SetStateAction<Song> }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "beginGesture" }
+  | { type: "endGesture" };
+
+function historyReducer(history: History<Song>, action: HistoryAction): History<Song> {
+  switch (action.type) {
+    case "set": {
+      const next =
+        typeof action.update === "function" ? action.update(history.present) : action.update;
+      return commit(history, next);
+    }
+    case "undo":
+      return undo(history);
+    case "redo":
+      return redo(history);
+    case "beginGesture":
+      return beginGesture(history);
+    case "endGesture":
+      return endGesture(history);
+  }
+}
+
+export function useSongHistory(initialSong: Song) {
+  const [history, dispatch] = useReducer(historyReducer, initialSong, createHistory);
+
+  const setSong = useCallback((update: SetStateAction<Song>) => {
+    dispatch({ type: "set", update });
+  }, []);
+  const undoEdit = useCallback(() => dispatch({ type: "undo" }), []);
+  const redoEdit = useCallback(() => dispatch({ type: "redo" }), []);
+  const startGesture = useCallback(() => dispatch({ type: "beginGesture" }), []);
+  const finishGesture = useCallback(() => dispatch({ type: "endGesture" }), []);
+
+  return {
+    song: history.present,
+    setSong,
+    undo: undoEdit,
+    redo: redoEdit,
+    canUndo:
+      history.past.length > 0 ||
+      (history.gestureStart !== null && history.gestureStart !== history.present),
+    canRedo: history.future.length > 0,
+    beginGesture: startGesture,
+    endGesture: finishGesture,
+  };
+}
@@ -0,0 +1,149 @@
+// @vitest-environment happy-dom
+import { act, cleanup, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Song } from "@/core/types";
+import { DEFAULT_SONG } from "@/core/defaults";
+import { MemorySongStore, openSong, saveDraft } from "@/core/library";
+import { useSongLibrary } from "./useSongLibrary";
+
+const EDITED: Song = { ...DEFAULT_SONG, bpm: 120 };
+const EDITED_AGAIN: Song = { ...DEFAULT_SONG, bpm: 140 };
+
+// Lets the store's promises settle
+async function settle() {
+  await act(async () => {});
+}
+
+async function wait(ms: number) {
+  await act(async () => {
+    vi.advanceTimersByTime(ms);
+  });
+}
+
+function setup(store = new MemorySongStore(), recover = true) {
+  const onOpen = vi.fn<(song: Song) => void>();
+  const shouldRecover = vi.fn(() => recover);
+  const hook = renderHook(
+    ({ song }: { song: Song }) => useSongLibrary({ store, song, onOpen, shouldRecover }),
+    { initialProps: { song: DEFAULT_SONG } }
+  );
+  return { store, onOpen, shouldRecover, ...hook };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+describe("autosave", () => {
+  it("doesn't add the song to the library until it is edited", async () => {
+    const { store } = setup();
+    await settle();
+    await wait(5000);
+    expect(await store.list()).toEqual([]);
+    expect(await store.getDraft()).toBeNull();
+  });
+
+  it("writes the draft first and the library copy once edits pause", async () => {
+    const { store, result, rerender } = setup();
+    await settle();
+    rerender({ song: EDITED });
+
+    await wait(250);
+    expect(await store.getDraft()).toMatchObject({ songId: result.current.current.id });
+    expect(await store.list()).toEqual([]);
+
+    await wait(750);
+    expect(result.current.entries).toHaveLength(1);
+    expect(await openSong(store, result.current.current.id)).toEqual(EDITED);
+  });
+
+  it("saves only the last of quick edits", async () => {
+    const { store, result, rerender } = setup();
+    await settle();
+    rerender({ song: EDITED });
+    await wait(500);
+    rerender({ song: EDITED_AGAIN });
+    await wait(1000);
+    expect(result.current.entries).toHaveLength(1);
+    expect(await openSong(store, result.current.current.id)).toEqual(EDITED_AGAIN);
+  });
+});
+
+describe("library actions", () => {
+  async function withSavedSong() {
+    const setupResult = setup();
+    await settle();
+    setupResult.rerender({ song: EDITED });
+    await wait(1000);
+    return setupResult;
+  }
+
+  it("renames the open song", async () => {
+    const { store, result } = await withSavedSong();
+    const id = result.current.current.id;
+    await act(() => result.current.rename(id, "Chorus"));
+    expect(result.current.current.name).toBe("Chorus");
+    expect(result.current.entries[0].name).toBe("Chorus");
+    expect((await store.get(id))?.name).toBe("Chorus");
+  });
+
+  it("saves pending edits before duplicating the open song", async () => {
+    const { store, result, rerender } = await withSavedSong();
+    rerender({ song: EDITED_AGAIN });
+    await act(() => result.current.duplicate(result.current.current.id));
+    expect(result.current.entries).toHaveLength(2);
+    for (const entry of result.current.entries) {
+      expect(await openSong(store, entry.id)).toEqual(EDITED_AGAIN);
+    }
+  });
+
+  it("deletes songs", async () => {
+    const { store, result } = await withSavedSong();
+    await act(() => result.current.remove(result.current.current.id));
+    expect(result.current.entries).toEqual([]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("opens a song from the library, saving the one open before", async () => {
+    const { store, result, rerender, onOpen } = await withSavedSong();
+    const before = result.current.current.id;
+    await act(() => result.current.duplicate(before));
+    const copy = result.current.entries.find((e) => e.id !== before);
+    if (!copy) throw new Error("no copy");
+
+    rerender({ song: EDITED_AGAIN });
+    await act(() => result.current.open(copy.id));
+    expect(onOpen).toHaveBeenLastCalledWith(EDITED);
+    expect(result.current.current).toEqual({ id: copy.id, name: copy.name });
+    expect(await openSong(store, before)).toEqual(EDITED_AGAIN);
+    expect(await store.getDraft()).toMatchObject({ songId: copy.id });
+  });
+});
+
+describe("draft recovery", () => {
+  async function storeWithDraft() {
+    const store = new MemorySongStore();
+    await saveDraft(store, "s1", "Song", EDITED);
+    return store;
+  }
+
+  it("reopens the song left open last time", async () => {
+    const { result, onOpen, shouldRecover } = setup(await storeWithDraft());
+    await settle();
+    expect(shouldRecover).toHaveBeenCalled();
+    expect(onOpen).toHaveBeenCalledWith(EDITED);
+    expect(result.current.current).toEqual({ id: "s1", name: "Song" });
+  });
+
+  it("leaves the editor alone when told not to recover", async () => {
+    const { result, onOpen } = setup(await storeWithDraft(), false);
+    await settle();
+    expect(onOpen).not.toHaveBeenCalled();
+    expect(result.current.current.id).not.toBe("s1");
+  });
+});
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Song } from "@/core/types";
+import type { LibraryEntry, SongStore } from "@/core/library";
+import {
+  DEFAULT_SONG_NAME,
+  duplicateSong,
+  openSong,
+  recoverDraft,
+  renameSong,
+  saveDraft,
+  saveSong,
+  sortEntries,
+  upsertEntry,
+} from "@/core/library";
+import { newId } from "@/core/id";
+import { songThumbnail } from "@/ui/thumbnail";
+
+// Quiet time after an edit before the draft, and then the library copy and its thumbnail,
+// are written; drags change the song on every pointer move
+const DRAFT_DELAY = 250; // ms
+const AUTOSAVE_DELAY = 1000; // ms
+
+interface UseSongLibraryOptions {
+  store: SongStore;
+  song: Song;
+  // Shows a song in the editor, without touching the library. Both callbacks must keep their
+  // identity, or the last session's draft is restored again.
+  onOpen: (song: Song) => void;
+  // Asked on startup before the draft is restored
+  shouldRecover: () => boolean;
+}
+
+// Keeps the song being edited in the local library. A song only gets a library entry once
+// it has been changed, so opening the app doesn't fill the library with empty songs.
+export function useSongLibrary({ store, song, onOpen, shouldRecover }: UseSongLibraryOptions) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [current, setCurrent] = useState(() => ({ id: newId(), name: DEFAULT_SONG_NAME }));
+  const [error, setError] = useState<string | null>(null);
+  // The song as it was last opened or saved; autosave skips it
+  const savedSongRef = useRef<Song | null>(song);
+
+  const report = useCallback((err: unknown) => {
+    setError(err instanceof Error ? err.message : String(err));
+  }, []);
+
+  // Startup: list the library and bring back the song left open last time
+  useEffect(() => {
+    let cancelled = false;
+    store
+      .list()
+      .then((listed) => {
+        if (!cancelled) setEntries(sortEntries(listed));
+      })
+      .catch(report);
+    recoverDraft(store)
+      .then((draft) => {
+        if (cancelled || !draft || !shouldRecover()) return;
+        savedSongRef.current = draft.song;
+        setCurrent({ id: draft.songId, name: draft.name });
+        onOpen(draft.song);
+      })
+      .catch(report);
+    return () => {
+      cancelled = true;
+    };
+  }, [store, onOpen, shouldRecover, report]);
+
+  // Autosave
+  useEffect(() => {
+    if (song === savedSongRef.current) return;
+    const draftTimer = setTimeout(() => {
+      saveDraft(store, current.id, current.name, song).catch(report);
+    }, DRAFT_DELAY);
+    const saveTimer = setTimeout(() => {
+      savedSongRef.current = song;
+      saveSong(store, { ...current, thumbnail: songThumbnail(song) }, song)
+        .then((entry) => setEntries((prev) => upsertEntry(prev, entry)))
+        .catch(report);
+    }, AUTOSAVE_DELAY);
+    return () => {
+      clearTimeout(draftTimer);
+      clearTimeout(saveTimer);
+    };
+  }, [store, song, current, report]);
+
+  // Saves edits autosave hasn't got to yet, before another song takes the editor's place
+  const flush = useCallback(async () => {
+    if (song === savedSongRef.current) return;
+    savedSongRef.current = song;
+    const saved = await saveSong(store, { ...current, thumbnail: songThumbnail(song) }, song);
+    setEntries((prev) => upsertEntry(prev, saved));
+  }, [store, current, song]);
+
+  // Starts a new library entry for what the editor shows next; the song open until now
+  // stays in the library as it was
+  const startNew = useCallback(
+    (name: string, next: Song) => {
+      flush().catch(report);
+      setCurrent({ id: newId(), name });
+      // Saved even if it isn't edited
+      savedSongRef.current = null;
+      onOpen(next);
+    },
+    [flush, report, onOpen]
+  );
+
+  const open = useCallback(
+    async (id: string) => {
+      const entry = entries.find((e) => e.id === id);
+      const opened = await openSong(store, id);
+      if (!entry || !opened) return;
+      await flush();
+      savedSongRef.current = opened;
+      setCurrent({ id, name: entry.name });
+      await saveDraft(store, id, entry.name, opened);
+      onOpen(opened);
+    },
+    [store, entries, flush, onOpen]
+  );
+
+  const rename = useCallback(
+    async (id: string, name: string) => {
+      const renamed = await renameSong(store, id, name);
+      if (renamed) setEntries((prev) => upsertEntry(prev, renamed));
+      if (id === current.id) setCurrent({ id, name });
+    },
+    [store, current.id]
+  );
+
+  const duplicate = useCallback(
+    async (id: string) => {
+      // The open song may have edits that aren't saved yet
+      if (id === current.id) await flush();
+      const copy = await duplicateSong(store, id);
+      if (copy) setEntries((prev) => upsertEntry(prev, copy));
+    },
+    [store, current.id, flush]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await store.delete(id);
+      setEntries((prev) => prev.filter((e) => e.id !== id));
+    },
+    [store]
+  );
+
+  return { entries, current, error, startNew, open, rename, duplicate, remove };
+}
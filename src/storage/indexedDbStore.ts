@@ -0,0 +1,75 @@
+import type { Draft, LibraryEntry, SongStore, StoredSong } from "@/core/library";
+import { entryOf } from "@/core/library";
+
+const DB_NAME = "beatbubble";
+const DB_VERSION = 1;
+const SONGS = "songs";
+const DRAFTS = "drafts";
+// There is only ever one draft: the song open in the editor
+const DRAFT_KEY = "current";
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The browser's local song library. The database is opened on first use, so creating the
+// store is safe during server rendering.
+export class IndexedDbSongStore implements SongStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async list(): Promise<LibraryEntry[]> {
+    const records = await result<StoredSong[]>((await this.store(SONGS, "readonly")).getAll());
+    return records.map(entryOf);
+  }
+
+  async get(id: string): Promise<StoredSong | null> {
+    const record = await result<StoredSong | undefined>(
+      (await this.store(SONGS, "readonly")).get(id)
+    );
+    return record ?? null;
+  }
+
+  async put(record: StoredSong): Promise<void> {
+    await result((await this.store(SONGS, "readwrite")).put(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    await result((await this.store(SONGS, "readwrite")).delete(id));
+  }
+
+  async getDraft(): Promise<Draft | null> {
+    const draft = await result<Draft | undefined>(
+      (await this.store(DRAFTS, "readonly")).get(DRAFT_KEY)
+    );
+    return draft ?? null;
+  }
+
+  async putDraft(draft: Draft): Promise<void> {
+    await result((await this.store(DRAFTS, "readwrite")).put(draft, DRAFT_KEY));
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SONGS, { keyPath: "id" });
+        db.createObjectStore(DRAFTS);
+      };
+      this.db = result(request);
+      // A failed open (private browsing, storage turned off) is retried on the next use
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
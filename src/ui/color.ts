@@ -1,4 +1,6 @@
-import type { NoteName } from "@/core/types";
+import type { DrumId, NoteName } from "@/core/types";
+import { getDrum } from "@/core/drumkit";
+import { isWhiteKey, noteNameToMidi } from "@/core/utils";
 
 const NOTE_COLORS: Record<string, string> = {
   C: "hsl(0, 70%, 60%)",
@@ -10,21 +12,24 @@ const NOTE_COLORS: Record<string, string> = {
   B: "hsl(300, 50%, 60%)",
 };
 
-const DRUM_COLORS: Record<string, string> = {
-  kick: "hsl(0, 0%, 35%)",
-  snare: "hsl(40, 60%, 55%)",
-  hihat: "hsl(50, 70%, 65%)",
-};
-
 export function colorForNote(noteName: NoteName): string {
   const letter = noteName.charAt(0).toUpperCase();
   return NOTE_COLORS[letter] ?? "hsl(0, 0%, 60%)";
 }
 
-export function colorForDrum(drumId: string): string {
-  return DRUM_COLORS[drumId] ?? "hsl(0, 0%, 50%)";
+export function colorForDrum(drumId: DrumId): string {
+  return getDrum(drumId).color;
+}
+
+// Quieter notes and hits draw fainter and smaller
+export function velocityOpacity(velocity: number): number {
+  return 0.4 + 0.6 * velocity;
+}
+
+export function velocityScale(velocity: number): number {
+  return 0.6 + 0.4 * velocity;
 }
 
 export function isAccidental(noteName: NoteName): boolean {
-  return noteName.includes("#") || noteName.includes("b");
+  return !isWhiteKey(noteNameToMidi(noteName));
 }
@@ -1,29 +1,98 @@
-import type { MelodyNote, NoteName, Song } from "@/core/types";
-import { midiToNoteName, noteNameToMidi } from "@/core/utils";
-import { isAccidental } from "./color";
+import type {
+  DrumHit,
+  DrumId,
+  MelodyNote,
+  MelodyTrack,
+  NoteName,
+  Pattern,
+  Selection,
+  Song,
+} from "@/core/types";
+import { isPitchAllowed } from "@/core/scale";
+import { midiToNoteName, noteNameToMidi, patternNotes } from "@/core/utils";
 
-export function buildNoteRows(song: Song): NoteName[] {
-  const { minNote, maxNote, allowAccidentals } = song.constraints;
+export function buildNoteRows(song: Song, track: MelodyTrack): NoteName[] {
+  const { minNote, maxNote } = track;
   const minMidi = noteNameToMidi(minNote);
   const maxMidi = noteNameToMidi(maxNote);
 
   const notes: NoteName[] = [];
   for (let midi = maxMidi; midi >= minMidi; midi--) {
-    const noteName = midiToNoteName(midi);
-    if (!allowAccidentals && isAccidental(noteName)) {
+    if (!isPitchAllowed(song, midi)) {
       continue;
     }
-    notes.push(noteName);
+    notes.push(midiToNoteName(midi));
   }
   return notes;
 }
 
+// What one row of the grid holds; melody rows come first, then drum rows
+export type GridRow = { kind: "note"; note: NoteName } | { kind: "drum"; drumId: DrumId };
+
+export type GridPoint = { row: number; step: number };
+
+export const EMPTY_SELECTION: Selection = { noteIds: [], hitIds: [] };
+
+// Horizontal zoom of the grid; cells keep their height and get wider or narrower
+export const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2];
+export const DEFAULT_ZOOM = 1;
+
+export function nearestZoom(zoom: number): number {
+  return ZOOM_LEVELS.reduce((best, level) =>
+    Math.abs(Math.log(level / zoom)) < Math.abs(Math.log(best / zoom)) ? level : best
+  );
+}
+
+// The next zoom level in `direction` (1 in, -1 out), staying at the ends
+export function stepZoom(zoom: number, direction: 1 | -1): number {
+  const index = ZOOM_LEVELS.indexOf(nearestZoom(zoom)) + direction;
+  return ZOOM_LEVELS[Math.max(0, Math.min(ZOOM_LEVELS.length - 1, index))];
+}
+
+export function buildGridRows(noteRows: NoteName[], drumRows: DrumId[]): GridRow[] {
+  return [
+    ...noteRows.map((note): GridRow => ({ kind: "note", note })),
+    ...drumRows.map((drumId): GridRow => ({ kind: "drum", drumId })),
+  ];
+}
+
+// Notes touching the rectangle between two corners, and the hits inside it
+export function selectInRect(
+  pattern: Pattern,
+  trackId: string,
+  rows: GridRow[],
+  a: GridPoint,
+  b: GridPoint
+): Selection {
+  const picked = rows.slice(Math.min(a.row, b.row), Math.max(a.row, b.row) + 1);
+  const first = Math.min(a.step, b.step);
+  const last = Math.max(a.step, b.step);
+  const notes = picked.flatMap((row) => (row.kind === "note" ? [row.note] : []));
+  const drums = picked.flatMap((row) => (row.kind === "drum" ? [row.drumId] : []));
+
+  return {
+    noteIds: patternNotes(pattern, trackId)
+      .filter(
+        (n) =>
+          notes.includes(n.note) && n.startStep <= last && n.startStep + n.durationSteps > first
+      )
+      .map((n) => n.id),
+    hitIds: pattern.hits
+      .filter((h) => drums.includes(h.drumId) && h.step >= first && h.step <= last)
+      .map((h) => h.id),
+  };
+}
+
+export function isSelectionEmpty(selection: Selection): boolean {
+  return selection.noteIds.length === 0 && selection.hitIds.length === 0;
+}
+
 export function findMelodyNoteAt(
-  song: Song,
+  notes: MelodyNote[],
   noteName: NoteName,
   step: number
 ): MelodyNote | null {
-  for (const note of song.melody.notes) {
+  for (const note of notes) {
     if (note.note !== noteName) continue;
     if (step >= note.startStep && step < note.startStep + note.durationSteps) {
       return note;
@@ -32,6 +101,24 @@ export function findMelodyNoteAt(
   return null;
 }
 
+// Other tracks' notes covering a cell, shown faintly behind the track being edited
+export function findGhostNotesAt(
+  song: Song,
+  pattern: Pattern,
+  activeTrackId: string,
+  noteName: NoteName,
+  step: number
+): MelodyNote[] {
+  return song.melody.tracks
+    .filter((track) => track.id !== activeTrackId)
+    .map((track) => findMelodyNoteAt(patternNotes(pattern, track.id), noteName, step))
+    .filter((note): note is MelodyNote => note !== null);
+}
+
+export function findDrumHitAt(pattern: Pattern, drumId: DrumId, step: number): DrumHit | null {
+  return pattern.hits.find((h) => h.drumId === drumId && h.step === step) ?? null;
+}
+
 export function isStartCell(note: MelodyNote, step: number): boolean {
   return step === note.startStep;
 }
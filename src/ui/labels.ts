@@ -0,0 +1,53 @@
+import type { DrumHit, DrumId, MelodyNote, NoteName, Song } from "@/core/types";
+import { getDrum } from "@/core/drumkit";
+import { velocityOf } from "@/core/utils";
+
+type Meter = Pick<Song, "beatsPerBar" | "stepsPerBeat">;
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+// "bar 2 beat 3", with the step within the beat when it falls between beats
+export function describeStep(meter: Meter, step: number): string {
+  const stepsPerBar = meter.beatsPerBar * meter.stepsPerBeat;
+  const bar = Math.floor(step / stepsPerBar) + 1;
+  const beat = Math.floor((step % stepsPerBar) / meter.stepsPerBeat) + 1;
+  const subdivision = step % meter.stepsPerBeat;
+  const position = `bar ${bar} beat ${beat}`;
+  return subdivision === 0 ? position : `${position} step ${subdivision + 1}`;
+}
+
+export function describeNote(meter: Meter, note: MelodyNote): string {
+  return `${note.note} at ${describeStep(meter, note.startStep)}, ${plural(
+    note.durationSteps,
+    "step"
+  )}`;
+}
+
+// What a screen reader says for a melody cell, e.g. "E4, bar 2 beat 3, note 2 steps"
+export function melodyCellLabel(
+  meter: Meter,
+  noteName: NoteName,
+  step: number,
+  note: MelodyNote | null
+): string {
+  const where = `${noteName}, ${describeStep(meter, step)}`;
+  if (!note) return `${where}, empty`;
+  if (step !== note.startStep) {
+    return `${where}, held from ${describeStep(meter, note.startStep)}`;
+  }
+  const velocity = Math.round(velocityOf(note) * 100);
+  return `${where}, note ${plural(note.durationSteps, "step")}, velocity ${velocity}%`;
+}
+
+export function drumCellLabel(
+  meter: Meter,
+  drumId: DrumId,
+  step: number,
+  hit: DrumHit | null
+): string {
+  const where = `${getDrum(drumId).label}, ${describeStep(meter, step)}`;
+  if (!hit) return `${where}, empty`;
+  return `${where}, hit, velocity ${Math.round(velocityOf(hit) * 100)}%`;
+}
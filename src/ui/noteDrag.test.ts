@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { MelodyNote } from "@/core/types";
+import { DEFAULT_VELOCITY } from "@/core/utils";
+import type { NoteGrab } from "./noteDrag";
+import {
+  DRAG_THRESHOLD,
+  dragNote,
+  grabZone,
+  isTap,
+  isVerticalDrag,
+  pressNote,
+  VELOCITY_DRAG_PIXELS,
+} from "./noteDrag";
+
+// Steps 4 to 7 on row 10, pressed at (100, 200) on its second cell
+const NOTE: MelodyNote = { id: "n", startStep: 4, durationSteps: 4, note: "E4", velocity: 0.5 };
+const FROM = { row: 10, step: 5 };
+
+function press(grab: NoteGrab = "body") {
+  return pressNote(NOTE, grab, 100, 200, FROM);
+}
+
+describe("grabZone", () => {
+  it("grabs the start edge from the first quarter of the first cell", () => {
+    expect(grabZone(NOTE, 4, 0)).toBe("start-edge");
+    expect(grabZone(NOTE, 4, 0.24)).toBe("start-edge");
+    expect(grabZone(NOTE, 4, 0.25)).toBe("body");
+  });
+
+  it("grabs the end edge from the last quarter of the last cell", () => {
+    expect(grabZone(NOTE, 7, 0.76)).toBe("end-edge");
+    expect(grabZone(NOTE, 7, 0.75)).toBe("body");
+  });
+
+  it("grabs the body anywhere else", () => {
+    expect(grabZone(NOTE, 5, 0.1)).toBe("body");
+    expect(grabZone(NOTE, 6, 0.9)).toBe("body");
+  });
+
+  it("lets a one-step note be grabbed by either edge", () => {
+    const short = { ...NOTE, durationSteps: 1 };
+    expect(grabZone(short, 4, 0.1)).toBe("start-edge");
+    expect(grabZone(short, 4, 0.9)).toBe("end-edge");
+    expect(grabZone(short, 4, 0.5)).toBe("body");
+  });
+});
+
+describe("drag threshold", () => {
+  it("stays a tap until the pointer moves far enough", () => {
+    const near = DRAG_THRESHOLD - 1;
+    const { gesture, edit } = dragNote(press(), 100 + near, 200 - near, FROM);
+    expect(edit).toBeNull();
+    expect(isTap(gesture)).toBe(true);
+  });
+
+  it("starts moving the body once either direction reaches the threshold", () => {
+    const { gesture, edit } = dragNote(press(), 100, 200 + DRAG_THRESHOLD, FROM);
+    expect(gesture.mode).toBe("move");
+    expect(isTap(gesture)).toBe(false);
+    expect(edit).toEqual({ kind: "move", startStep: 4, rows: 0 });
+  });
+
+  it("keeps the mode it chose for the rest of the drag", () => {
+    const started = dragNote(press("end-edge"), 100 + DRAG_THRESHOLD, 200, FROM).gesture;
+    expect(started.mode).toBe("resize-end");
+    const later = dragNote(started, 100, 100, { row: 2, step: 9 });
+    expect(later.gesture.mode).toBe("resize-end");
+    expect(later.edit).toEqual({ kind: "resize", startStep: 4, durationSteps: 6 });
+  });
+
+  it("tells vertical drags from horizontal ones", () => {
+    expect(isVerticalDrag(0, DRAG_THRESHOLD)).toBe(true);
+    expect(isVerticalDrag(0, DRAG_THRESHOLD - 1)).toBe(false);
+    expect(isVerticalDrag(DRAG_THRESHOLD, DRAG_THRESHOLD)).toBe(false);
+    expect(isVerticalDrag(-2, -DRAG_THRESHOLD)).toBe(true);
+  });
+});
+
+describe("move", () => {
+  it("moves by the cells crossed since the press", () => {
+    const { edit } = dragNote(press(), 160, 160, { row: 8, step: 8 });
+    expect(edit).toEqual({ kind: "move", startStep: 7, rows: -2 });
+  });
+});
+
+describe("trim-start", () => {
+  const start = (x: number) => dragNote(press("start-edge"), x, 200, FROM).gesture;
+
+  it("moves the start and keeps the end", () => {
+    const { edit } = dragNote(start(90), 80, 200, { row: 10, step: 2 });
+    expect(edit).toEqual({ kind: "resize", startStep: 2, durationSteps: 6 });
+  });
+
+  it("stops at the note's last step", () => {
+    const { edit } = dragNote(start(110), 200, 200, { row: 10, step: 12 });
+    expect(edit).toEqual({ kind: "resize", startStep: 7, durationSteps: 1 });
+  });
+
+  it("stops at the start of the pattern", () => {
+    const { edit } = dragNote(start(90), 0, 200, { row: 10, step: -3 });
+    expect(edit).toEqual({ kind: "resize", startStep: 0, durationSteps: 8 });
+  });
+});
+
+describe("resize-end", () => {
+  const start = () => dragNote(press("end-edge"), 110, 200, FROM).gesture;
+
+  it("ends the note on the step under the pointer", () => {
+    const { edit } = dragNote(start(), 150, 200, { row: 10, step: 11 });
+    expect(edit).toEqual({ kind: "resize", startStep: 4, durationSteps: 8 });
+  });
+
+  it("keeps the note at least one step long", () => {
+    const { edit } = dragNote(start(), 20, 200, { row: 10, step: 1 });
+    expect(edit).toEqual({ kind: "resize", startStep: 4, durationSteps: 1 });
+  });
+});
+
+describe("velocity", () => {
+  it("starts when an edge is dragged up or down", () => {
+    for (const grab of ["start-edge", "end-edge"] as const) {
+      const { gesture } = dragNote(press(grab), 101, 200 - DRAG_THRESHOLD, FROM);
+      expect(gesture.mode).toBe("velocity");
+    }
+  });
+
+  it("rises dragging up and falls dragging down", () => {
+    const started = dragNote(press("end-edge"), 100, 190, FROM).gesture;
+    const up = dragNote(started, 100, 200 - VELOCITY_DRAG_PIXELS / 4, FROM).edit;
+    const down = dragNote(started, 100, 200 + VELOCITY_DRAG_PIXELS / 4, FROM).edit;
+    expect(up).toEqual({ kind: "velocity", velocity: 0.75 });
+    expect(down).toEqual({ kind: "velocity", velocity: 0.25 });
+  });
+
+  it("measures from the default velocity for notes without one", () => {
+    const plain = { ...NOTE, velocity: undefined };
+    const gesture = pressNote(plain, "start-edge", 100, 200, FROM);
+    const { edit } = dragNote(gesture, 100, 200 + VELOCITY_DRAG_PIXELS / 2, FROM);
+    expect(edit).toEqual({ kind: "velocity", velocity: DEFAULT_VELOCITY - 0.5 });
+  });
+});
@@ -0,0 +1,124 @@
+import type { MelodyNote } from "@/core/types";
+import { velocityOf } from "@/core/utils";
+import type { GridPoint } from "./grid";
+
+export const DRAG_THRESHOLD = 5;
+// Vertical distance that sweeps velocity across its whole range
+export const VELOCITY_DRAG_PIXELS = 120;
+// Share of a cell at either end of a note that grabs that edge instead of the body
+const EDGE_ZONE = 0.25;
+
+export type NoteGrab = "start-edge" | "end-edge" | "body";
+
+// Pressed but not yet dragged, then one of the drags once the pointer has moved far enough
+export type NoteGestureMode = "pending" | "move" | "trim-start" | "resize-end" | "velocity";
+
+// Dragging an existing note. Everything is measured from the press, so each edit describes
+// the note's new place relative to how it was when pressed.
+export type NoteGesture = {
+  note: MelodyNote;
+  grab: NoteGrab;
+  mode: NoteGestureMode;
+  clientX: number;
+  clientY: number;
+  from: GridPoint;
+};
+
+export type NoteEdit =
+  | { kind: "move"; startStep: number; rows: number }
+  | { kind: "resize"; startStep: number; durationSteps: number }
+  | { kind: "velocity"; velocity: number };
+
+export function isVerticalDrag(deltaX: number, deltaY: number): boolean {
+  return Math.abs(deltaY) >= DRAG_THRESHOLD && Math.abs(deltaY) > Math.abs(deltaX);
+}
+
+// `offset` is how far across the pressed cell the press landed, 0 (left) to 1 (right)
+export function grabZone(note: MelodyNote, step: number, offset: number): NoteGrab {
+  if (step === note.startStep && offset < EDGE_ZONE) return "start-edge";
+  if (step === note.startStep + note.durationSteps - 1 && offset > 1 - EDGE_ZONE) {
+    return "end-edge";
+  }
+  return "body";
+}
+
+export function pressNote(
+  note: MelodyNote,
+  grab: NoteGrab,
+  clientX: number,
+  clientY: number,
+  from: GridPoint
+): NoteGesture {
+  return { note, grab, mode: "pending", clientX, clientY, from };
+}
+
+// Decides what kind of drag a pending press turns into once it has moved far enough.
+// Edges resize sideways and change velocity up and down; the body moves in time and pitch.
+function chooseMode(gesture: NoteGesture, deltaX: number, deltaY: number): NoteGestureMode {
+  if (gesture.grab === "body") {
+    const moved = Math.abs(deltaX) >= DRAG_THRESHOLD || Math.abs(deltaY) >= DRAG_THRESHOLD;
+    return moved ? "move" : "pending";
+  }
+  if (isVerticalDrag(deltaX, deltaY)) return "velocity";
+  if (Math.abs(deltaX) < DRAG_THRESHOLD) return "pending";
+  return gesture.grab === "start-edge" ? "trim-start" : "resize-end";
+}
+
+export function dragNote(
+  gesture: NoteGesture,
+  clientX: number,
+  clientY: number,
+  point: GridPoint
+): { gesture: NoteGesture; edit: NoteEdit | null } {
+  const mode =
+    gesture.mode === "pending"
+      ? chooseMode(gesture, clientX - gesture.clientX, clientY - gesture.clientY)
+      : gesture.mode;
+  const next = mode === gesture.mode ? gesture : { ...gesture, mode };
+  const { note, from } = gesture;
+  const end = note.startStep + note.durationSteps;
+
+  switch (mode) {
+    case "pending":
+      return { gesture: next, edit: null };
+    case "move":
+      return {
+        gesture: next,
+        edit: {
+          kind: "move",
+          startStep: note.startStep + point.step - from.step,
+          rows: point.row - from.row,
+        },
+      };
+    case "trim-start": {
+      // The end stays put; the start can come forward to the last step of the note
+      const startStep = Math.max(0, Math.min(point.step, end - 1));
+      return {
+        gesture: next,
+        edit: { kind: "resize", startStep, durationSteps: end - startStep },
+      };
+    }
+    case "resize-end":
+      return {
+        gesture: next,
+        edit: {
+          kind: "resize",
+          startStep: note.startStep,
+          durationSteps: Math.max(1, point.step - note.startStep + 1),
+        },
+      };
+    case "velocity":
+      return {
+        gesture: next,
+        edit: {
+          kind: "velocity",
+          velocity: velocityOf(note) + (gesture.clientY - clientY) / VELOCITY_DRAG_PIXELS,
+        },
+      };
+  }
+}
+
+// A press that never turned into a drag is a tap
+export function isTap(gesture: NoteGesture): boolean {
+  return gesture.mode === "pending";
+}
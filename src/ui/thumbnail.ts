@@ -0,0 +1,41 @@
+import type { Song } from "@/core/types";
+import { findPattern, noteNameToMidi, patternNotes, totalSteps } from "@/core/utils";
+import { colorForDrum, colorForNote } from "./color";
+
+const NOTE_HEIGHT = 2;
+const DRUM_BAND = 3;
+
+function rect(x: number, y: number, width: number, height: number, fill: string): string {
+  return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${fill}"/>`;
+}
+
+// A small picture of the first pattern the song plays, as the grid would show it: notes as
+// coloured bars by pitch, drum hits as dots along the bottom
+export function songThumbnail(song: Song): string {
+  const pattern = findPattern(song, song.arrangement[0].patternId) ?? song.patterns[0];
+  const steps = totalSteps(song);
+  const notes = song.melody.tracks.flatMap((track) => patternNotes(pattern, track.id));
+  const keys = notes.map((n) => noteNameToMidi(n.note));
+  const top = Math.max(...keys, 0);
+  const rows = keys.length > 0 ? top - Math.min(...keys) + 1 : 1;
+  const height = rows * NOTE_HEIGHT + DRUM_BAND;
+
+  const shapes = [
+    ...notes.map((note, i) =>
+      rect(
+        note.startStep,
+        (top - keys[i]) * NOTE_HEIGHT,
+        note.durationSteps,
+        NOTE_HEIGHT,
+        colorForNote(note.note)
+      )
+    ),
+    ...pattern.hits.map((hit) =>
+      rect(hit.step + 0.25, height - DRUM_BAND + 1, 0.5, 1, colorForDrum(hit.drumId))
+    ),
+  ];
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${steps} ${height}" ` +
+    `preserveAspectRatio="none">${shapes.join("")}</svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}